@@ -11,10 +11,57 @@ import {
   StagingParameters,
   CameraAngle,
   StagedScene,
-  InputStatus
+  InputStatus,
+  Workspace,
+  PromptKind,
+  PromptTemplate,
+  StylePreset,
+  RenderVersion,
+  PreprocessOptions,
+  MoodBoardRole,
+  UsageEntry,
+  CatalogEntry
 } from './types';
-import { GeminiService } from './services/geminiService';
+import { RenderProvider, createRenderProvider } from './services/renderProvider';
+import { loadAllProjects, saveProject, deleteProject, remapIds } from './services/projectStore';
+import { loadTemplates, saveTemplate, deleteTemplate } from './services/templateStore';
+import { BUILT_IN_CATALOG, catalogLabel, loadCatalog, saveCatalogEntry, deleteCatalogEntry } from './services/catalog';
+import { loadPresets, savePreset, deletePreset, createPresetFromCollection, applyPreset, exportPresets, parsePresetFile } from './services/presetLibrary';
+import { downloadBlob, downloadImage, slugify } from './services/download';
+import { ExportOptions, exportCollection, countExportable } from './services/exportService';
+import { EditSession, createSession, currentImage, addStep, findStep, undo, redo, jumpTo, sessionPrompt } from './services/editSession';
+import { BUNDLE_EXTENSION, exportProjectBundle, parseProjectBundle } from './services/projectBundle';
+import { ParameterErrors, validateParameters } from './services/parameters';
+import { groupImages, ungroupProduct, siblingViews, splitStagingInputs } from './services/products';
+import { createVersion, addVersion, selectFinalVersion, finalVersion, finalSize, needsUpscale } from './services/versions';
+import { DEFAULT_OUTPUT, allProfiles, profileFor } from './services/output';
+import { DEFAULT_FIDELITY, isLowFidelity, renderWithFidelity } from './services/fidelity';
+import { DEFAULT_PREPROCESS, prepareInput } from './services/preprocess';
+import { createMoodBoardImage, extractPalette } from './services/moodBoard';
+import { ErrorNotice, InvalidInputError, RenderError, errorNotice, isFatal, toRenderError } from './services/renderErrors';
+import { RenderQueue, QueueSnapshot, JobOutcome } from './services/renderQueue';
+import { collectionCost, formatCost, isOverBudget } from './services/usage';
+import { InputFilter, INPUT_FILTERS, isRenderableInput, matchesInputFilter, confirmInputs, removeInput, restoreInput, replaceInput, updateInputPixels } from './services/inputs';
+import { BUILT_IN_TEMPLATES, productVariables, stagingVariables, templateBodyFor, templateName } from './services/promptBuilder';
 import Button from './components/Button';
+import ProjectList from './components/ProjectList';
+import TemplateEditor from './components/TemplateEditor';
+import CatalogEditor from './components/CatalogEditor';
+import PresetLibrary from './components/PresetLibrary';
+import ParameterPanel from './components/ParameterPanel';
+import ProductGroups from './components/ProductGroups';
+import VersionCompare from './components/VersionCompare';
+import OutputProfilePanel, { describeProfile } from './components/OutputProfilePanel';
+import FidelityPanel, { FidelityBadge } from './components/FidelityPanel';
+import { SafeArea } from './components/FramePreview';
+import ExportDialog from './components/ExportDialog';
+import PreprocessDialog from './components/PreprocessDialog';
+import MoodBoardPanel from './components/MoodBoardPanel';
+import MaskCanvas from './components/MaskCanvas';
+import EditSessionPanel from './components/EditSessionPanel';
+import UsagePanel from './components/UsagePanel';
+import UsageDashboard from './components/UsageDashboard';
+import { LOCALES, LOCALE_NAMES, Locale, formatDate, formatDateTime, getLocale, setLocale, t } from './services/i18n';
 
 // Fix: Avoid conflict with existing global AIStudio type by using any.
 // The error suggested 'aistudio' must be of type 'AIStudio'.
@@ -30,7 +77,7 @@ const INITIAL_PARAMS: RenderParameters = {
   lightingEnv: LightingEnvironment.MORNING,
   lightingDirection: 'Side',
   designStyle: DesignStyle.MODERN,
-  colorPalette: 'Neutral Earthy Tones',
+  colorPalette: ['#E8DCCB', '#C8B6A6', '#A4907C', '#8D7B68'],
   mood: 'Warm and inviting',
   allowExternalItems: false
 };
@@ -43,30 +90,117 @@ const INITIAL_STAGING_PARAMS: StagingParameters = {
 };
 
 interface EditingState {
+  collectionId: string;
   type: 'product' | 'scene';
   id: string;
-  imageUrl: string;
-  prompt: string;
+  session: EditSession;
+  prompt: string; // Chỉ dẫn đang soạn cho bước tiếp theo
+  maskUrl?: string; // Vùng được phép sửa; không có thì sửa toàn ảnh
   isProcessing: boolean;
 }
 
+interface CompareTarget {
+  collectionId: string;
+  type: 'product' | 'scene';
+  id: string;
+}
+
 const App: React.FC = () => {
-  const [collection, setCollection] = useState<Collection | null>(null);
-  const [isRendering, setIsRendering] = useState(false);
-  const [renderStatus, setRenderStatus] = useState<string | null>(null);
+  const queueRef = useRef(new RenderQueue(2));
+  const [workspace, setWorkspace] = useState<Workspace>({ collections: [], activeCollectionId: null });
+  const [queueState, setQueueState] = useState<QueueSnapshot>(() => queueRef.current.snapshot());
   const [editingState, setEditingState] = useState<EditingState | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [notice, setNotice] = useState<ErrorNotice | null>(null);
   const [hasPaidKey, setHasPaidKey] = useState(false);
+  const [transferTargetId, setTransferTargetId] = useState('');
+  const [templates, setTemplates] = useState<PromptTemplate[]>(BUILT_IN_TEMPLATES);
+  const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
+  const [catalog, setCatalog] = useState<CatalogEntry[]>(BUILT_IN_CATALOG);
+  const [isCatalogOpen, setIsCatalogOpen] = useState(false);
+  const [presets, setPresets] = useState<StylePreset[]>([]);
+  const [inputFilter, setInputFilter] = useState<InputFilter>('active');
+  const [replacingId, setReplacingId] = useState<string | null>(null);
+  const [preprocessingId, setPreprocessingId] = useState<string | null>(null);
+  const [isPreparingInputs, setIsPreparingInputs] = useState(false);
+  const [compareTarget, setCompareTarget] = useState<CompareTarget | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [locale, setLocaleState] = useState<Locale>(getLocale);
   
-  const geminiRef = useRef<GeminiService | null>(null);
+  const providerRef = useRef<RenderProvider | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const moodBoardRef = useRef<HTMLInputElement>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const savedRef = useRef(new Map<string, Collection>());
+  // Cảnh đang chờ/đang render; render lại khi chưa xong thì dùng chung kết quả
+  const sceneJobsRef = useRef(new Map<string, Promise<string | undefined>>());
+
+  const collection = workspace.collections.find(c => c.id === workspace.activeCollectionId) ?? null;
+  const paramErrors: ParameterErrors = collection
+    ? validateParameters(collection.mode === 'Individual' ? collection.parameters : collection.stagingParameters, collection.mode === 'Staging', catalog)
+    : {};
+  const hasParamErrors = Object.keys(paramErrors).length > 0;
+  const isRendering = queueState.queued + queueState.running > 0;
+  const failedCount = !collection ? 0 : collection.mode === 'Individual'
+    ? collection.images.filter(img => isRenderableInput(img) && img.renderStatus === 'error').length
+    : collection.stagedScenes.filter(s => s.status === 'error').length;
+  const upscaleCount = !collection ? 0
+    : [...collection.images, ...collection.stagedScenes].filter(item => needsUpscale(item, collection.output.finalResolution)).length;
+  const lowFidelityCount = !collection ? 0 : collection.mode === 'Individual'
+    ? collection.images.filter(img => isLowFidelity(finalVersion(img), collection.fidelity)).length
+    : collection.stagedScenes.filter(s => isLowFidelity(finalVersion(s), collection.fidelity)).length;
+
+  useEffect(() => queueRef.current.subscribe(setQueueState), []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
 
   useEffect(() => {
-    geminiRef.current = new GeminiService();
+    providerRef.current = createRenderProvider();
     checkApiKey();
+    loadAllProjects()
+      .then(collections => {
+        collections.forEach(c => savedRef.current.set(c.id, c));
+        setWorkspace(prev => ({ ...prev, collections: [...prev.collections, ...collections] }));
+      })
+      .catch(err => console.error("Project load error:", err));
+    loadTemplates()
+      .then(saved => setTemplates([...BUILT_IN_TEMPLATES, ...saved]))
+      .catch(err => console.error("Template load error:", err));
+    loadCatalog()
+      .then(saved => setCatalog([...BUILT_IN_CATALOG, ...saved]))
+      .catch(err => console.error("Catalog load error:", err));
+    loadPresets()
+      .then(setPresets)
+      .catch(err => console.error("Preset load error:", err));
   }, []);
 
+  // Tự động lưu các dự án đã thay đổi vào IndexedDB
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      workspace.collections.forEach(c => {
+        if (savedRef.current.get(c.id) === c) return;
+        savedRef.current.set(c.id, c);
+        saveProject(c).catch(err => console.error("Save error:", err));
+      });
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [workspace.collections]);
+
+  const updateCollection = (id: string, updater: (c: Collection) => Collection) => {
+    setWorkspace(prev => ({
+      ...prev,
+      collections: prev.collections.map(c => {
+        if (c.id !== id) return c;
+        const next = updater(c);
+        return { ...next, metadata: { ...next.metadata, updatedAt: Date.now() } };
+      })
+    }));
+  };
+
+  const setCollection = (next: Collection) => updateCollection(next.id, () => next);
+
   const checkApiKey = async () => {
     if (window.aistudio) {
       const selected = await window.aistudio.hasSelectedApiKey();
@@ -74,55 +208,312 @@ const App: React.FC = () => {
     }
   };
 
+  const handleChangeLocale = (next: Locale) => {
+    setLocale(next);
+    // Đổi state để cả cây render lại với bản dịch mới
+    setLocaleState(next);
+  };
+
   const handleSelectKey = async () => {
     if (window.aistudio) {
       await window.aistudio.openSelectKey();
       // Assume success after opening dialog as per instructions to avoid race conditions
       setHasPaidKey(true);
-      setErrorMessage(null);
+      setNotice(null);
     }
   };
 
   const handleCreateCollection = () => {
-    setCollection({
+    const now = Date.now();
+    const created: Collection = {
       id: Math.random().toString(36).substr(2, 9),
-      name: 'New Project',
+      name: t('project.defaultName'),
+      metadata: { client: '', skuPrefix: '', createdAt: now, updatedAt: now },
       mode: 'Individual',
       parameters: { ...INITIAL_PARAMS },
       stagingParameters: { ...INITIAL_STAGING_PARAMS },
+      products: [],
       images: [],
       stagedScenes: [],
+      output: { ...DEFAULT_OUTPUT },
+      fidelity: { ...DEFAULT_FIDELITY },
+      preprocess: { ...DEFAULT_PREPROCESS },
+      moodBoard: [],
+      usage: [],
       isConfirmed: false
-    });
+    };
+    setWorkspace(prev => ({ collections: [created, ...prev.collections], activeCollectionId: created.id }));
   };
 
-  const handleAddImages = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files || !collection) return;
-    const newImages: ProductImage[] = Array.from(e.target.files).map((file: File) => ({
+  const handleSwitchProject = (id: string | null) => {
+    setWorkspace(prev => ({ ...prev, activeCollectionId: id }));
+    setTransferTargetId('');
+  };
+
+  const handleDuplicateProject = (id: string) => {
+    const source = workspace.collections.find(c => c.id === id);
+    if (!source) return;
+    const now = Date.now();
+    // Id mới cho mọi ảnh, cảnh và phiên bản để chuyển ảnh qua lại giữa hai dự án không bị trùng id
+    const copy: Collection = {
+      ...remapIds(source),
+      name: t('project.copyName', { name: source.name }),
+      metadata: { ...source.metadata, createdAt: now, updatedAt: now },
+      // Bản sao chưa tiêu gì nên bắt đầu sổ chi phí mới
+      usage: []
+    };
+    setWorkspace(prev => ({ ...prev, collections: [copy, ...prev.collections] }));
+  };
+
+  const handleExportBundle = async (id: string) => {
+    const source = workspace.collections.find(c => c.id === id);
+    if (!source) return;
+    try {
+      downloadBlob(await exportProjectBundle(source, templates, catalog), `${slugify(source.name)}${BUNDLE_EXTENSION}`);
+    } catch (err) {
+      setNotice(errorNotice(err, t('notice.exportFailed')));
+    }
+  };
+
+  const handleImportBundle = async (file: File) => {
+    try {
+      const { collection: imported, templates: importedTemplates, catalog: importedCatalog } = parseProjectBundle(await file.text());
+      importedTemplates.forEach(handleSaveTemplate);
+      // Mục catalog đã có cùng id được giữ nguyên, không ghi đè bản trên máy
+      importedCatalog.filter(entry => !catalog.some(e => e.id === entry.id)).forEach(handleSaveCatalogEntry);
+      const now = Date.now();
+      const opened = { ...imported, metadata: { ...imported.metadata, updatedAt: now } };
+      setWorkspace(prev => ({ collections: [opened, ...prev.collections], activeCollectionId: opened.id }));
+    } catch (err) {
+      setNotice(errorNotice(err, t('notice.openFailed')));
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    // Xoá trong IndexedDB trước; lỗi thì dự án vẫn còn nguyên trong danh sách
+    try {
+      await deleteProject(id);
+    } catch (err) {
+      setNotice(errorNotice(err, t('notice.deleteFailed')));
+      return;
+    }
+    setWorkspace(prev => ({
+      collections: prev.collections.filter(c => c.id !== id),
+      activeCollectionId: prev.activeCollectionId === id ? null : prev.activeCollectionId
+    }));
+    savedRef.current.delete(id);
+  };
+
+  const handleUpdateMetadata = (field: 'client' | 'skuPrefix', value: string) => {
+    if (!collection) return;
+    setCollection({ ...collection, metadata: { ...collection.metadata, [field]: value } });
+  };
+
+  const handleTransferImages = (mode: 'move' | 'copy') => {
+    if (!collection || !transferTargetId) return;
+    const picked = collection.images.filter(img => img.isSelected);
+    if (picked.length === 0) return;
+    // Luôn cấp id mới: dự án đích có thể đã chứa ảnh cùng id (ví dụ bản sao của dự án này)
+    const transferred: ProductImage[] = picked.map(img => ({
+      ...img,
       id: Math.random().toString(36).substr(2, 9),
-      originalUrl: URL.createObjectURL(file),
-      viewType: ViewType.FRONT,
-      inputStatus: InputStatus.IMPORTED,
-      renderStatus: 'pending'
+      productId: undefined,
+      isSelected: false
     }));
-    setCollection(prev => prev ? { ...prev, images: [...prev.images, ...newImages], isConfirmed: false } : null);
+    updateCollection(transferTargetId, c => ({ ...c, images: [...c.images, ...transferred], isConfirmed: false }));
+    if (mode === 'move') {
+      const remaining = collection.images.filter(img => !img.isSelected);
+      const movedIds = new Set(picked.map(img => img.id));
+      // Cảnh không còn sản phẩm nào thì bỏ, các cảnh dựa vào nó làm master được tách ra
+      const scenes = collection.stagedScenes
+        .map(scene => ({ ...scene, productIds: scene.productIds.filter(id => !movedIds.has(id)) }))
+        .filter(scene => scene.productIds.length > 0);
+      setCollection({
+        ...collection,
+        images: remaining,
+        products: collection.products.filter(p => remaining.some(img => img.productId === p.id)),
+        stagedScenes: scenes.map(scene => scene.masterSceneId && !scenes.some(s => s.id === scene.masterSceneId)
+          ? { ...scene, masterSceneId: undefined }
+          : scene)
+      });
+    }
+  };
+
+  const handleSaveTemplate = (template: PromptTemplate) => {
+    setTemplates(prev => prev.some(tpl => tpl.id === template.id)
+      ? prev.map(tpl => tpl.id === template.id ? template : tpl)
+      : [...prev, template]);
+    saveTemplate(template).catch(err => console.error("Template save error:", err));
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    setTemplates(prev => prev.filter(tpl => tpl.id !== id));
+    deleteTemplate(id).catch(err => console.error("Template delete error:", err));
+  };
+
+  const handleSaveCatalogEntry = (entry: CatalogEntry) => {
+    setCatalog(prev => prev.some(e => e.id === entry.id)
+      ? prev.map(e => e.id === entry.id ? entry : e)
+      : [...prev, entry]);
+    saveCatalogEntry(entry).catch(err => console.error("Catalog save error:", err));
+  };
+
+  const handleDeleteCatalogEntry = (id: string) => {
+    setCatalog(prev => prev.filter(e => e.id !== id));
+    deleteCatalogEntry(id).catch(err => console.error("Catalog delete error:", err));
+  };
+
+  const handleSelectTemplate = (kind: PromptKind, id: string) => {
+    if (!collection) return;
+    setCollection({ ...collection, ...(kind === 'product' ? { productTemplateId: id } : { stagingTemplateId: id }) });
+  };
+
+  const handleSavePreset = (name: string) => {
+    if (!collection) return;
+    const preset = createPresetFromCollection(collection, name);
+    setPresets(prev => [...prev, preset]);
+    savePreset(preset).catch(err => console.error("Preset save error:", err));
+  };
+
+  const handleDeletePreset = (id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+    deletePreset(id).catch(err => console.error("Preset delete error:", err));
+  };
+
+  const handleExportPresets = async () => {
+    downloadBlob(await exportPresets(presets, catalog), 'lem-studio-presets.json');
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const { presets: imported, catalog: importedCatalog } = parsePresetFile(await file.text());
+      importedCatalog.filter(entry => !catalog.some(e => e.id === entry.id)).forEach(handleSaveCatalogEntry);
+      setPresets(prev => [...prev, ...imported]);
+      await Promise.all(imported.map(savePreset));
+    } catch (err) {
+      setNotice(errorNotice(err, t('notice.presetImportFailed')));
+    }
+  };
+
+  const handleSetViewType = (id: string, viewType: ViewType) => {
+    if (!collection) return;
+    setCollection({ ...collection, images: collection.images.map(img => img.id === id ? { ...img, viewType } : img) });
+  };
+
+  const handleGroupSelected = () => {
+    if (!collection) return;
+    setCollection(groupImages(collection, collection.images.filter(img => img.isSelected).map(img => img.id)));
+  };
+
+  const handleUpdateProduct = (id: string, field: 'sku' | 'name', value: string) => {
+    if (!collection) return;
+    setCollection({ ...collection, products: collection.products.map(p => p.id === id ? { ...p, [field]: value } : p) });
+  };
+
+  const handleAddImages = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || !collection) return;
+    const files = Array.from(e.target.files);
     if (e.target) e.target.value = '';
+    setIsPreparingInputs(true);
+    try {
+      // Xử lý lần lượt từng ảnh để không giữ nhiều ảnh lớn trong bộ nhớ cùng lúc
+      const newImages: ProductImage[] = [];
+      for (const file of files) {
+        newImages.push({
+          id: Math.random().toString(36).substr(2, 9),
+          ...await prepareInput(URL.createObjectURL(file), collection.preprocess),
+          viewType: ViewType.FRONT,
+          inputStatus: InputStatus.IMPORTED,
+          renderStatus: 'pending'
+        });
+      }
+      updateCollection(collection.id, prev => ({ ...prev, images: [...prev.images, ...newImages], isConfirmed: false }));
+    } finally {
+      setIsPreparingInputs(false);
+    }
+  };
+
+  // Ảnh đã xử lý bị thay thì giải phóng, trừ khi bản sao dự án hoặc job render ảnh sản phẩm đang chờ vẫn dùng tới.
+  // Ảnh cũ không có sourceUrl thì originalUrl chính là ảnh gốc, vẫn được giữ lại
+  const releaseInputUrl = (previous: ProductImage, next: Pick<ProductImage, 'originalUrl'>) => {
+    const url = previous.originalUrl;
+    if (!url.startsWith('blob:') || !previous.sourceUrl || url === previous.sourceUrl || url === next.originalUrl) return;
+    if (queueRef.current.has(previous.id)) return;
+    const inUse = workspace.collections.some(c => c.images.some(img => img !== previous && (img.originalUrl === url || img.sourceUrl === url)));
+    if (inUse) return;
+    // Job cảnh chỉ đọc ảnh đầu vào khi bắt đầu chạy, nên đợi các cảnh có ảnh này xong rồi mới giải phóng
+    const sceneJobs = workspace.collections
+      .flatMap(c => c.stagedScenes)
+      .filter(scene => scene.productIds.includes(previous.id))
+      .map(scene => sceneJobsRef.current.get(scene.id))
+      .filter((job): job is Promise<string | undefined> => !!job);
+    Promise.allSettled(sceneJobs).then(() => URL.revokeObjectURL(url));
   };
 
-  const handleMoodBoardUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files || !e.target.files[0] || !collection) return;
-    const url = URL.createObjectURL(e.target.files[0]);
-    setCollection({ ...collection, referenceImage: url });
+  const handleReplaceImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || !e.target.files[0] || !collection || !replacingId) return;
+    const file = e.target.files[0];
+    const id = replacingId;
+    setReplacingId(null);
     if (e.target) e.target.value = '';
+    setIsPreparingInputs(true);
+    try {
+      const input = await prepareInput(URL.createObjectURL(file), collection.preprocess);
+      updateCollection(collection.id, prev => replaceInput(prev, id, input));
+      const previous = collection.images.find(img => img.id === id);
+      if (previous) releaseInputUrl(previous, input);
+    } finally {
+      setIsPreparingInputs(false);
+    }
+  };
+
+  const handleApplyPreprocess = (id: string, options: PreprocessOptions, url: string) => {
+    const previous = collection?.images.find(img => img.id === id);
+    if (!collection || !previous) return;
+    const input = { originalUrl: url, sourceUrl: previous.sourceUrl ?? previous.originalUrl, preprocess: options };
+    updateCollection(collection.id, prev => updateInputPixels(prev, id, input));
+    releaseInputUrl(previous, input);
+    setPreprocessingId(null);
   };
 
-  const handleRemoveMoodBoard = (e: React.MouseEvent) => {
-    e.stopPropagation();
+  // Áp dụng cho mọi ảnh đang dùng và làm mặc định cho các ảnh tải lên sau
+  const handleApplyPreprocessAll = async (options: PreprocessOptions) => {
     if (!collection) return;
-    setCollection({ ...collection, referenceImage: undefined });
+    setIsPreparingInputs(true);
+    try {
+      updateCollection(collection.id, prev => ({ ...prev, preprocess: options }));
+      for (const img of collection.images.filter(i => i.inputStatus !== InputStatus.REMOVED)) {
+        const input = await prepareInput(img.sourceUrl ?? img.originalUrl, options);
+        updateCollection(collection.id, prev => updateInputPixels(prev, img.id, input));
+        releaseInputUrl(img, input);
+      }
+      setPreprocessingId(null);
+    } finally {
+      setIsPreparingInputs(false);
+    }
   };
 
-  const handleUpdateParams = (field: string, value: any) => {
+  const handleAddMoodBoard = async (files: File[]) => {
+    if (!collection) return;
+    const added = await Promise.all(files.map(async file => {
+      const image = createMoodBoardImage(URL.createObjectURL(file));
+      // Trích màu lỗi thì ảnh vẫn dùng được làm tham chiếu, chỉ không góp vào bảng màu
+      return { ...image, palette: await extractPalette(image.url).catch(() => undefined) };
+    }));
+    updateCollection(collection.id, prev => ({ ...prev, moodBoard: [...prev.moodBoard, ...added] }));
+  };
+
+  const handleSetMoodBoardRole = (id: string, role: MoodBoardRole) => {
+    if (!collection) return;
+    setCollection({ ...collection, moodBoard: collection.moodBoard.map(m => m.id === id ? { ...m, role } : m) });
+  };
+
+  const handleRemoveMoodBoard = (id: string) => {
+    if (!collection) return;
+    setCollection({ ...collection, moodBoard: collection.moodBoard.filter(m => m.id !== id) });
+  };
+
+  const handleUpdateParams = <K extends keyof StagingParameters>(field: K, value: StagingParameters[K]) => {
     if (!collection) return;
     if (collection.mode === 'Individual') {
       setCollection({ ...collection, parameters: { ...collection.parameters, [field]: value } });
@@ -131,7 +522,7 @@ const App: React.FC = () => {
     }
   };
 
-  const toggleViewpoint = (angle: CameraAngle) => {
+  const toggleViewpoint = (angle: string) => {
     if (!collection) return;
     const current = collection.stagingParameters.viewpoints;
     const next = current.includes(angle) 
@@ -141,132 +532,359 @@ const App: React.FC = () => {
   };
 
   const toggleImageSelection = (id: string) => {
-    setCollection(prev => prev ? {
+    if (!collection) return;
+    updateCollection(collection.id, prev => ({
       ...prev,
       images: prev.images.map(img => img.id === id ? { ...img, isSelected: !img.isSelected } : img)
-    } : null);
+    }));
   };
 
-  const handleRender = async () => {
-    if (!collection || !collection.isConfirmed || !geminiRef.current) return;
-    setIsRendering(true);
-    setErrorMessage(null);
+  // Lỗi về key/quota ảnh hưởng mọi mục còn lại nên tạm dừng cả hàng đợi; lỗi khác chỉ ghi lên mục đó
+  const reportRenderError = (error: RenderError) => {
+    console.error("Render error:", error, error.cause);
+    if (!isFatal(error)) return;
+    queueRef.current.pause();
+    // Key không dùng được nữa thì buộc chọn lại
+    if (error.kind === 'auth') setHasPaidKey(false);
+    setNotice(errorNotice(error));
+  };
 
-    try {
-      if (collection.mode === 'Individual') {
-        const imagesToRender = collection.images.filter(img => img.inputStatus === InputStatus.CONFIRMED && img.renderStatus !== 'completed');
-        for (let i = 0; i < imagesToRender.length; i++) {
-          const img = imagesToRender[i];
-          setRenderStatus(`Rendering Product ${i + 1}/${imagesToRender.length}...`);
-          updateImageStatus(img.id, 'processing');
-          const url = await geminiRef.current.renderProduct(img, collection.parameters, collection.referenceImage);
-          if (url) updateImageStatus(img.id, 'completed', url);
-        }
-      } else {
-        const selected = collection.images.filter(img => img.isSelected && img.inputStatus === InputStatus.CONFIRMED);
-        if (selected.length === 0) {
-          setErrorMessage("Vui lòng chọn ít nhất một sản phẩm để bắt đầu Room Staging.");
-          setIsRendering(false);
-          return;
-        }
-
-        const sortedAngles = [...collection.stagingParameters.viewpoints].sort((a, b) => {
-          if (a === CameraAngle.WIDE) return -1;
-          if (b === CameraAngle.WIDE) return 1;
-          return 0;
-        });
+  // Mỗi lượt gọi provider được ghi vào sổ chi phí của dự án đã gửi nó
+  const recordUsage = (collectionId: string) => (entry: UsageEntry) =>
+    updateCollection(collectionId, prev => ({ ...prev, usage: [...prev.usage, entry] }));
 
-        const scenes: StagedScene[] = sortedAngles.map(angle => ({
-          id: Math.random().toString(36).substr(2, 9),
-          productIds: selected.map(p => p.id),
-          angle,
-          status: 'pending'
-        }));
-
-        setCollection(prev => prev ? { ...prev, stagedScenes: [...prev.stagedScenes, ...scenes] } : null);
-
-        let masterShotUrl: string | undefined = undefined;
-
-        for (let i = 0; i < scenes.length; i++) {
-          const scene = scenes[i];
-          const isMaster = i === 0;
-          
-          setRenderStatus(isMaster ? "🎨 Establishing Master Shot..." : `📸 Relocating to Angle: ${scene.angle}...`);
-          updateSceneStatus(scene.id, 'processing');
-          
-          const url = await geminiRef.current.stageRoom(
-            selected, 
-            collection.stagingParameters, 
-            scene.angle, 
-            collection.referenceImage,
-            masterShotUrl
-          );
-
-          if (url) {
-            updateSceneStatus(scene.id, 'completed', url);
-            if (isMaster) masterShotUrl = url;
-          }
-        }
+  // Trần chi phí chặn mọi lượt render mới; các lượt đã vào hàng đợi vẫn chạy hết
+  const checkBudget = (owner: Collection): boolean => {
+    if (!isOverBudget(owner)) return true;
+    setNotice({
+      title: t('notice.budgetTitle'),
+      message: t('notice.budgetMessage', { cost: formatCost(collectionCost(owner)), budget: formatCost(owner.budget!) }),
+      needsKey: false
+    });
+    return false;
+  };
+
+  const outcomeMessage = (outcome: JobOutcome): string | undefined => {
+    if (outcome.status === 'cancelled') return t('error.cancelled');
+    if (outcome.status === 'failed') {
+      const error = toRenderError(outcome.error);
+      reportRenderError(error);
+      return error.message;
+    }
+    return undefined;
+  };
+
+  const enqueueProduct = async (owner: Collection, img: ProductImage) => {
+    // Job cùng id đang chạy sẽ tự cập nhật trạng thái
+    if (queueRef.current.has(img.id)) return;
+    updateImageStatus(owner.id, img.id, 'pending');
+    const outcome = await queueRef.current.enqueue({
+      id: img.id,
+      run: async (signal) => {
+        updateImageStatus(owner.id, img.id, 'processing');
+        const checked = await renderWithFidelity(() => providerRef.current!.renderProduct({
+          product: img,
+          referenceViews: siblingViews(owner.images, img),
+          params: owner.parameters,
+          moodBoard: owner.moodBoard,
+          template: templateBodyFor(templates, 'product', owner.productTemplateId),
+          catalog,
+          profile: profileFor(owner.output, owner.output.productProfileId, 'product'),
+          signal,
+          onUsage: recordUsage(owner.id)
+        }), [img.originalUrl], owner.fidelity);
+        updateImageStatus(owner.id, img.id, 'completed', { ...createVersion(checked.result, 'render', owner.parameters), fidelity: checked.fidelity });
       }
-    } catch (err: any) {
-      console.error("Render error:", err);
-      // Fix: Handle 'Requested entity was not found' by resetting key selection
-      if (err.message?.includes("Requested entity was not found")) {
-        setHasPaidKey(false);
-        handleSelectKey();
+    });
+    const message = outcomeMessage(outcome);
+    if (message) updateImageStatus(owner.id, img.id, 'error', undefined, message);
+  };
+
+  // Trả về ảnh của cảnh khi render xong, để các góc phụ dùng làm master shot
+  const enqueueScene = (owner: Collection, scene: StagedScene, masterShotUrl?: string): Promise<string | undefined> => {
+    const existing = sceneJobsRef.current.get(scene.id);
+    if (existing) return existing;
+    const job = runScene(owner, scene, masterShotUrl).finally(() => sceneJobsRef.current.delete(scene.id));
+    sceneJobsRef.current.set(scene.id, job);
+    return job;
+  };
+
+  const runScene = async (owner: Collection, scene: StagedScene, masterShotUrl?: string): Promise<string | undefined> => {
+    let imageUrl: string | undefined;
+    updateSceneStatus(owner.id, scene.id, 'pending');
+    const outcome = await queueRef.current.enqueue({
+      id: scene.id,
+      run: async (signal) => {
+        updateSceneStatus(owner.id, scene.id, 'processing');
+        const { primaries, referenceViews } = splitStagingInputs(
+          owner.images,
+          owner.images.filter(img => scene.productIds.includes(img.id))
+        );
+        const checked = await renderWithFidelity(() => providerRef.current!.stageRoom({
+          products: primaries,
+          referenceViews,
+          params: owner.stagingParameters,
+          angle: scene.angle,
+          moodBoard: owner.moodBoard,
+          masterShotUrl,
+          template: templateBodyFor(templates, 'staging', owner.stagingTemplateId),
+          catalog,
+          profile: profileFor(owner.output, scene.profileId, 'staging'),
+          signal,
+          onUsage: recordUsage(owner.id)
+        }), primaries.map(p => p.originalUrl), owner.fidelity);
+        updateSceneStatus(owner.id, scene.id, 'completed', { ...createVersion(checked.result, 'render', owner.stagingParameters), fidelity: checked.fidelity });
+        imageUrl = checked.result.imageUrl;
+      }
+    });
+    const message = outcomeMessage(outcome);
+    if (message) updateSceneStatus(owner.id, scene.id, 'error', undefined, message);
+    return imageUrl;
+  };
+
+  // Master shot phải xong trước, sau đó các góc phụ chạy song song dựa trên nó
+  const runSceneGroup = async (owner: Collection, master: StagedScene | undefined, perspectives: StagedScene[], masterShotUrl?: string) => {
+    if (master) {
+      masterShotUrl = await enqueueScene(owner, master);
+      if (!masterShotUrl) {
+        perspectives.forEach(scene => updateSceneStatus(owner.id, scene.id, 'error', undefined, t('error.masterFailed')));
         return;
       }
+    }
+    await Promise.all(perspectives.map(scene => enqueueScene(owner, scene, masterShotUrl)));
+  };
 
-      if (err.message?.includes("API_KEY_MISSING") || err.message?.includes("429") || err.message?.includes("EXHAUSTED")) {
-        setErrorMessage("Lỗi giới hạn (Quota). Để sử dụng mô hình tạo ảnh CGI, bạn vui lòng nhấn nút 'Kết nối API Key trả phí' và chọn một dự án Google Cloud có bật Billing.");
-      } else {
-        setErrorMessage(`Lỗi hệ thống: ${err.message || "Đã có sự cố xảy ra, vui lòng thử lại."}`);
+  // Lượt thứ hai cho bản final; lỗi upscale không làm mất bản render hiện có
+  const enqueueUpscale = async (owner: Collection, type: 'product' | 'scene', item: ProductImage | StagedScene) => {
+    const setStatus = (status: ProductImage['renderStatus'], version?: RenderVersion) => type === 'product'
+      ? updateImageStatus(owner.id, item.id, status, version)
+      : updateSceneStatus(owner.id, item.id, status, version);
+    const base = finalVersion(item);
+    if (!item.renderedUrl || !base || queueRef.current.has(`${item.id}:upscale`)) return;
+    const outcome = await queueRef.current.enqueue({
+      id: `${item.id}:upscale`,
+      run: async (signal) => {
+        setStatus('processing');
+        const result = await providerRef.current!.upscaleImage({ imageUrl: item.renderedUrl!, imageSize: owner.output.finalResolution, signal, onUsage: recordUsage(owner.id) });
+        // Upscale không đổi nội dung nên giữ nguyên kết quả kiểm tra fidelity của bản gốc
+        setStatus('completed', { ...createVersion(result, 'upscale', base.parameters), fidelity: base.fidelity });
       }
-    } finally {
-      setIsRendering(false);
-      setRenderStatus(null);
+    });
+    if (outcome.status === 'done') return;
+    setStatus('completed');
+    outcomeMessage(outcome);
+    if (outcome.status === 'failed' && !queueRef.current.snapshot().paused) setNotice(errorNotice(toRenderError(outcome.error), t('notice.upscaleFailed')));
+  };
+
+  const handleUpscaleFinals = async () => {
+    if (!collection || !providerRef.current || !checkBudget(collection)) return;
+    const target = collection.output.finalResolution;
+    await Promise.all([
+      ...collection.images.filter(img => needsUpscale(img, target)).map(img => enqueueUpscale(collection, 'product', img)),
+      ...collection.stagedScenes.filter(s => needsUpscale(s, target)).map(s => enqueueUpscale(collection, 'scene', s))
+    ]);
+  };
+
+  const handleDownload = (owner: Collection, type: 'product' | 'scene', item: ProductImage | StagedScene) => {
+    if (!item.renderedUrl) return;
+    const parts = type === 'product'
+      ? [owner.products.find(p => p.id === (item as ProductImage).productId)?.sku ?? item.id, (item as ProductImage).viewType]
+      : [catalogLabel(catalog, 'cameraAngle', (item as StagedScene).angle), item.id];
+    const baseName = [owner.name, ...parts, finalSize(item)].map(slugify).join('_');
+    downloadImage(item.renderedUrl, baseName).catch(err => setNotice(errorNotice(err, t('notice.downloadFailed'))));
+  };
+
+  const handleExportCollection = async (options: ExportOptions, onProgress: (done: number, total: number) => void) => {
+    if (!collection) return;
+    const zip = await exportCollection(collection, catalog, options, onProgress);
+    downloadBlob(zip, `${slugify(collection.name)}.zip`);
+  };
+
+  const handleRender = async () => {
+    if (!collection || !collection.isConfirmed || !providerRef.current || hasParamErrors) return;
+    setNotice(null);
+    if (!checkBudget(collection)) return;
+
+    if (collection.mode === 'Individual') {
+      const imagesToRender = collection.images.filter(img => isRenderableInput(img) && img.renderStatus !== 'completed');
+      await Promise.all(imagesToRender.map(img => enqueueProduct(collection, img)));
+      return;
     }
+
+    const selected = splitStagingInputs(
+      collection.images,
+      collection.images.filter(img => img.isSelected && isRenderableInput(img))
+    ).primaries;
+    if (selected.length === 0) {
+      setNotice(errorNotice(new InvalidInputError(t('notice.stagingNeedsProducts'))));
+      return;
+    }
+
+    const sortedAngles = [...collection.stagingParameters.viewpoints].sort((a, b) => {
+      if (a === CameraAngle.WIDE) return -1;
+      if (b === CameraAngle.WIDE) return 1;
+      return 0;
+    });
+
+    const masterId = Math.random().toString(36).substr(2, 9);
+    const scenes: StagedScene[] = sortedAngles.map((angle, i) => ({
+      id: i === 0 ? masterId : Math.random().toString(36).substr(2, 9),
+      productIds: selected.map(p => p.id),
+      angle,
+      masterSceneId: i === 0 ? undefined : masterId,
+      status: 'pending'
+    }));
+
+    updateCollection(collection.id, prev => ({ ...prev, stagedScenes: [...prev.stagedScenes, ...scenes] }));
+    await runSceneGroup(collection, scenes[0], scenes.slice(1));
+  };
+
+  const handleSetSceneProfile = (sceneId: string, profileId?: string) => {
+    if (!collection) return;
+    updateCollection(collection.id, prev => ({
+      ...prev,
+      stagedScenes: prev.stagedScenes.map(s => s.id === sceneId ? { ...s, profileId } : s)
+    }));
+  };
+
+  // Góc phụ được render lại dựa trên bản final hiện tại của master shot
+  const handleRerenderScene = (scene: StagedScene) => {
+    if (!collection || !providerRef.current || !checkBudget(collection)) return;
+    const master = scene.masterSceneId ? collection.stagedScenes.find(s => s.id === scene.masterSceneId) : undefined;
+    enqueueScene(collection, scene, master?.renderedUrl);
+  };
+
+  // Render lại một nhóm cảnh bất kỳ mà vẫn giữ thứ tự master trước, góc phụ sau
+  const rerunScenes = async (owner: Collection, scenes: StagedScene[]) => {
+    const groups = new Map<string, StagedScene[]>();
+    scenes.filter(s => s.masterSceneId).forEach(s => groups.set(s.masterSceneId!, [...(groups.get(s.masterSceneId!) ?? []), s]));
+    const runs = scenes.filter(s => !s.masterSceneId).map(master => {
+      const perspectives = groups.get(master.id) ?? [];
+      groups.delete(master.id);
+      return runSceneGroup(owner, master, perspectives);
+    });
+    // Góc phụ có master đã xong thì chỉ cần render lại chính nó
+    groups.forEach((perspectives, masterId) => {
+      const master = owner.stagedScenes.find(s => s.id === masterId);
+      runs.push(runSceneGroup(owner, undefined, perspectives, master?.renderedUrl));
+    });
+    await Promise.all(runs);
+  };
+
+  const handleRetryFailed = async () => {
+    if (!collection || !providerRef.current) return;
+    setNotice(null);
+    if (!checkBudget(collection)) return;
+
+    if (collection.mode === 'Individual') {
+      const failed = collection.images.filter(img => isRenderableInput(img) && img.renderStatus === 'error');
+      await Promise.all(failed.map(img => enqueueProduct(collection, img)));
+      return;
+    }
+    await rerunScenes(collection, collection.stagedScenes.filter(s => s.status === 'error'));
+  };
+
+  const handleRerenderLowFidelity = async () => {
+    if (!collection || !providerRef.current || !checkBudget(collection)) return;
+    if (collection.mode === 'Individual') {
+      const low = collection.images.filter(img => isLowFidelity(finalVersion(img), collection.fidelity));
+      await Promise.all(low.map(img => enqueueProduct(collection, img)));
+      return;
+    }
+    await rerunScenes(collection, collection.stagedScenes.filter(s => isLowFidelity(finalVersion(s), collection.fidelity)));
+  };
+
+  const editTarget = (state: EditingState) => {
+    const owner = workspace.collections.find(c => c.id === state.collectionId);
+    const item = state.type === 'product'
+      ? owner?.images.find(i => i.id === state.id)
+      : owner?.stagedScenes.find(sc => sc.id === state.id);
+    return { owner, item };
   };
 
   const handleApplyEdit = async () => {
-    if (!editingState || !geminiRef.current || !editingState.prompt) return;
+    if (!editingState || !providerRef.current || !editingState.prompt) return;
+    const { prompt, maskUrl, session } = editingState;
+    const { owner, item } = editTarget(editingState);
+    if (owner && !checkBudget(owner)) return;
     setEditingState(prev => prev ? { ...prev, isProcessing: true } : null);
     
     try {
-      const newUrl = await geminiRef.current.editImage(editingState.imageUrl, editingState.prompt);
-      if (newUrl) {
-        if (editingState.type === 'product') {
-          updateImageStatus(editingState.id, 'completed', newUrl);
-        } else {
-          updateSceneStatus(editingState.id, 'completed', newUrl);
-        }
-        setEditingState(null);
-      }
-    } catch (err: any) {
-      // Fix: Handle 'Requested entity was not found' by resetting key selection
-      if (err.message?.includes("Requested entity was not found")) {
-        setHasPaidKey(false);
-        handleSelectKey();
-        return;
-      }
-      alert(`Lỗi chỉnh sửa: ${err.message}`);
+      const profile = owner && (editingState.type === 'product'
+        ? profileFor(owner.output, owner.output.productProfileId, 'product')
+        : profileFor(owner.output, (item as StagedScene | undefined)?.profileId, 'staging'));
+      const result = await providerRef.current.editImage({
+        imageUrl: currentImage(session),
+        prompt,
+        maskUrl,
+        imageSize: profile?.resolution,
+        onUsage: owner && recordUsage(owner.id)
+      });
+      // Mỗi lần sửa thành một bước mới; chỉ bước được commit mới thành phiên bản
+      setEditingState(prev => prev ? { ...prev, session: addStep(prev.session, prompt, !!maskUrl, result), prompt: '', maskUrl: undefined } : null);
+    } catch (err) {
+      const error = toRenderError(err);
+      console.error("Edit error:", error, error.cause);
+      if (error.kind === 'auth') setHasPaidKey(false);
+      setNotice(errorNotice(error, t('notice.editFailed')));
     } finally {
       setEditingState(prev => prev ? { ...prev, isProcessing: false } : null);
     }
   };
 
-  const updateImageStatus = (id: string, status: any, url?: string) => {
-    setCollection(prev => prev ? {
+  const handleCommitEdit = () => {
+    if (!editingState) return;
+    const { collectionId, session } = editingState;
+    const step = findStep(session, session.currentId);
+    if (!step) return;
+    const { owner, item } = editTarget(editingState);
+    // Bản chỉnh sửa kế thừa tham số của phiên bản đang được sửa
+    const baseParams = (item && finalVersion(item)?.parameters)
+      ?? (editingState.type === 'product' ? owner?.parameters : owner?.stagingParameters)
+      ?? INITIAL_STAGING_PARAMS;
+    const version = createVersion(
+      { imageUrl: step.imageUrl, prompt: sessionPrompt(session, step.id), imageSize: step.imageSize },
+      'edit',
+      baseParams
+    );
+    if (editingState.type === 'product') {
+      updateImageStatus(collectionId, editingState.id, 'completed', version);
+    } else {
+      updateSceneStatus(collectionId, editingState.id, 'completed', version);
+    }
+    setEditingState(null);
+  };
+
+  const updateSession = (update: (session: EditSession) => EditSession) => {
+    setEditingState(prev => prev ? { ...prev, session: update(prev.session), maskUrl: undefined } : null);
+  };
+
+  const updateImageStatus = (collectionId: string, id: string, status: ProductImage['renderStatus'], version?: RenderVersion, errorMessage?: string) => {
+    updateCollection(collectionId, prev => ({
       ...prev,
-      images: prev.images.map(i => i.id === id ? { ...i, renderStatus: status, ...(url && { renderedUrl: url }) } : i)
-    } : null);
+      images: prev.images.map(i => {
+        if (i.id !== id) return i;
+        const next = { ...i, renderStatus: status, errorMessage };
+        return version ? addVersion(next, version) : next;
+      })
+    }));
   };
 
-  const updateSceneStatus = (id: string, status: any, url?: string) => {
-    setCollection(prev => prev ? {
+  const updateSceneStatus = (collectionId: string, id: string, status: StagedScene['status'], version?: RenderVersion, errorMessage?: string) => {
+    updateCollection(collectionId, prev => ({
       ...prev,
-      stagedScenes: prev.stagedScenes.map(s => s.id === id ? { ...s, status: status, ...(url && { renderedUrl: url }) } : s)
-    } : null);
+      stagedScenes: prev.stagedScenes.map(s => {
+        if (s.id !== id) return s;
+        const next = { ...s, status, errorMessage };
+        return version ? addVersion(next, version) : next;
+      })
+    }));
+  };
+
+  const handleSelectFinalVersion = (target: CompareTarget, versionId: string) => {
+    updateCollection(target.collectionId, prev => target.type === 'product'
+      ? { ...prev, images: prev.images.map(i => i.id === target.id ? selectFinalVersion(i, versionId) : i) }
+      : { ...prev, stagedScenes: prev.stagedScenes.map(s => s.id === target.id ? selectFinalVersion(s, versionId) : s) });
   };
 
   return (
@@ -274,14 +892,50 @@ const App: React.FC = () => {
       <header className="bg-white/80 backdrop-blur-md border-b border-gray-100 sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-6 h-20 flex items-center justify-between py-4">
           <div className="flex items-center space-x-4">
-            <div className="w-12 h-12 bg-indigo-600 rounded-2xl flex items-center justify-center text-white text-2xl font-black shadow-xl shadow-indigo-200">L</div>
+            <div onClick={() => handleSwitchProject(null)} className="cursor-pointer w-12 h-12 bg-indigo-600 rounded-2xl flex items-center justify-center text-white text-2xl font-black shadow-xl shadow-indigo-200">L</div>
             <div>
               <h1 className="text-xl font-black text-gray-900 leading-none">Lem Studio <span className="text-indigo-600">AI</span></h1>
-              <span className="text-[10px] text-gray-400 font-bold uppercase tracking-widest mt-1 block">Professional CGI Rendering</span>
+              <span className="text-[10px] text-gray-400 font-bold uppercase tracking-widest mt-1 block">{t('app.tagline')}</span>
             </div>
+            {collection && (
+              <>
+                <div className="h-8 w-px bg-gray-200"></div>
+                <input
+                  className="bg-transparent border-none rounded-xl px-3 py-2 text-sm font-black text-gray-700 hover:bg-gray-50 focus:bg-gray-50 focus:ring-2 focus:ring-indigo-600 w-48"
+                  value={collection.name}
+                  onChange={(e) => setCollection({ ...collection, name: e.target.value })}
+                  onBlur={() => !collection.name.trim() && setCollection({ ...collection, name: t('project.defaultName') })}
+                />
+              </>
+            )}
+            {workspace.collections.length > 0 && (
+              <select
+                className="bg-gray-50 border-none rounded-xl px-3 py-2 text-xs font-black text-gray-500 focus:ring-2 focus:ring-indigo-600"
+                value={workspace.activeCollectionId ?? ''}
+                onChange={(e) => handleSwitchProject(e.target.value || null)}
+              >
+                <option value="">{t('app.allProjects')}</option>
+                {workspace.collections.map(c => (
+                  <option key={c.id} value={c.id}>{c.metadata.client ? `${c.metadata.client} · ${c.name}` : c.name}</option>
+                ))}
+              </select>
+            )}
           </div>
 
           <div className="flex items-center space-x-4">
+            <select
+              title={t('app.language')}
+              className="bg-gray-50 border-none rounded-xl px-3 py-2 text-xs font-black text-gray-500 focus:ring-2 focus:ring-indigo-600"
+              value={locale}
+              onChange={(e) => handleChangeLocale(e.target.value as Locale)}
+            >
+              {LOCALES.map(l => <option key={l} value={l}>{LOCALE_NAMES[l]}</option>)}
+            </select>
+            {workspace.collections.length > 0 && (
+              <Button onClick={() => setIsUsageOpen(true)} variant="secondary" size="sm" className="rounded-xl font-black">
+                {t('usage.button')}
+              </Button>
+            )}
             {!hasPaidKey && (
               <Button 
                 onClick={handleSelectKey} 
@@ -290,7 +944,7 @@ const App: React.FC = () => {
                 className="rounded-xl border-indigo-200 text-indigo-700 bg-indigo-50/50 hover:bg-indigo-100 font-black flex items-center"
               >
                 <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" /></svg>
-                Kết nối API Key trả phí
+                {t('app.connectKey')}
               </Button>
             )}
             
@@ -301,25 +955,38 @@ const App: React.FC = () => {
                     onClick={() => setCollection({...collection, mode: 'Individual'})}
                     className={`px-6 py-2 text-xs font-black rounded-xl transition-all ${collection.mode === 'Individual' ? 'bg-white shadow-lg text-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
                   >
-                    SINGLE
+                    {t('mode.product')}
                   </button>
                   <button 
                     onClick={() => setCollection({...collection, mode: 'Staging'})}
                     className={`px-6 py-2 text-xs font-black rounded-xl transition-all ${collection.mode === 'Staging' ? 'bg-white shadow-lg text-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
                   >
-                    ROOMS
+                    {t('mode.staging')}
                   </button>
                 </div>
                 <div className="h-8 w-px bg-gray-200"></div>
+                <select
+                  title={t('app.concurrency')}
+                  className="bg-gray-100 border-none rounded-xl pl-3 pr-8 py-2 text-xs font-black text-gray-600 focus:ring-2 focus:ring-indigo-600"
+                  value={queueState.concurrency}
+                  onChange={(e) => queueRef.current.setConcurrency(Number(e.target.value))}
+                >
+                  {[1, 2, 3, 4].map(n => <option key={n} value={n}>×{n}</option>)}
+                </select>
+                {failedCount > 0 && (
+                  <Button variant="outline" size="sm" className="rounded-xl font-black border-red-200 text-red-600" onClick={handleRetryFailed}>
+                    {t('app.retryFailed', { count: failedCount })}
+                  </Button>
+                )}
                 <Button 
                   onClick={handleRender} 
                   isLoading={isRendering} 
                   variant="primary" 
                   size="sm" 
-                  disabled={!collection.isConfirmed || collection.images.length === 0} 
+                  disabled={!collection.isConfirmed || collection.images.length === 0 || hasParamErrors} 
                   className="rounded-xl font-black px-8 py-3 bg-indigo-600 shadow-xl shadow-indigo-100"
                 >
-                  {collection.mode === 'Staging' ? 'Start Staging' : 'Batch Render'}
+                  {collection.mode === 'Staging' ? t('app.startStaging') : t('app.batchRender')}
                 </Button>
               </div>
             )}
@@ -327,63 +994,191 @@ const App: React.FC = () => {
         </div>
       </header>
 
-      {renderStatus && (
-        <div className="bg-indigo-600 text-white text-center py-2.5 text-[11px] font-black tracking-widest uppercase animate-pulse sticky top-20 z-40 shadow-xl">
-          <span className="mr-2">⚡</span> {renderStatus}
-        </div>
-      )}
+      {isRendering && (() => {
+        const done = queueState.completed + queueState.failed;
+        const total = done + queueState.running + queueState.queued;
+        return (
+          <div className="bg-indigo-600 text-white py-2.5 sticky top-20 z-40 shadow-xl">
+            <div className="max-w-7xl mx-auto px-6 flex items-center space-x-6 text-[11px] font-black tracking-widest uppercase">
+              <span className={queueState.paused ? '' : 'animate-pulse'}>
+                <span className="mr-2">⚡</span>
+                {t(queueState.paused ? 'queue.paused' : 'queue.rendering', { done, total })}
+                {queueState.failed > 0 && ` · ${t('queue.failed', { count: queueState.failed })}`}
+              </span>
+              <div className="h-1.5 bg-white/20 flex-grow rounded-full overflow-hidden">
+                <div className="h-full bg-white transition-all duration-500" style={{ width: `${(done / Math.max(total, 1)) * 100}%` }}></div>
+              </div>
+              <button onClick={() => queueState.paused ? queueRef.current.resume() : queueRef.current.pause()} className="px-3 py-1 rounded-lg bg-white/15 hover:bg-white/25">
+                {queueState.paused ? t('queue.resume') : t('queue.pause')}
+              </button>
+              <button onClick={() => queueRef.current.cancel()} className="px-3 py-1 rounded-lg bg-white/15 hover:bg-white/25">{t('common.cancel')}</button>
+            </div>
+          </div>
+        );
+      })()}
 
-      {errorMessage && (
+      {notice && (
         <div className="fixed inset-0 z-[110] flex items-center justify-center p-6 backdrop-blur-md bg-black/20 animate-in fade-in duration-200">
           <div className="bg-white w-full max-w-md rounded-[32px] shadow-2xl p-8 border border-red-100">
             <div className="w-16 h-16 bg-red-50 rounded-2xl flex items-center justify-center text-red-500 mb-6 mx-auto">
               <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
             </div>
-            <h3 className="text-xl font-black text-center text-gray-900 mb-4">Quota Limit Reached</h3>
-            <p className="text-gray-500 text-center text-sm font-medium leading-relaxed mb-8">{errorMessage}</p>
-            <div className="flex flex-col space-y-3">
-              <Button variant="primary" className="w-full rounded-2xl py-4 font-black bg-indigo-600" onClick={handleSelectKey}>Kết nối API Key trả phí</Button>
-              <Button variant="secondary" className="w-full rounded-2xl py-4 font-black" onClick={() => setErrorMessage(null)}>Bỏ qua</Button>
-            </div>
-            <p className="mt-6 text-[10px] text-center text-gray-400">
-              Bạn cần chọn một API Key từ tài khoản Google Cloud có bật <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" className="text-indigo-600 underline">Thanh toán (Billing)</a>.
-            </p>
+            <h3 className="text-xl font-black text-center text-gray-900 mb-4">{notice.title}</h3>
+            <p className="text-gray-500 text-center text-sm font-medium leading-relaxed mb-8">{notice.message}</p>
+            {notice.needsKey ? (
+              <>
+                <div className="flex flex-col space-y-3">
+                  <Button variant="primary" className="w-full rounded-2xl py-4 font-black bg-indigo-600" onClick={handleSelectKey}>{t('app.connectKey')}</Button>
+                  <Button variant="secondary" className="w-full rounded-2xl py-4 font-black" onClick={() => setNotice(null)}>{t('notice.skip')}</Button>
+                </div>
+                <p className="mt-6 text-[10px] text-center text-gray-400">
+                  {t('notice.billingHint')} <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" className="text-indigo-600 underline">{t('notice.billingLink')}</a>.
+                </p>
+              </>
+            ) : (
+              <Button variant="secondary" className="w-full rounded-2xl py-4 font-black" onClick={() => setNotice(null)}>{t('common.close')}</Button>
+            )}
           </div>
         </div>
       )}
 
+      {isUsageOpen && (
+        <UsageDashboard
+          collections={workspace.collections}
+          activeCollection={collection}
+          onOpenProject={(id) => { handleSwitchProject(id); setIsUsageOpen(false); }}
+          onClose={() => setIsUsageOpen(false)}
+        />
+      )}
+
+      {isExportOpen && collection && (
+        <ExportDialog
+          fileCount={countExportable(collection)}
+          onExport={handleExportCollection}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {preprocessingId && collection && (() => {
+        const image = collection.images.find(img => img.id === preprocessingId);
+        if (!image) return null;
+        return (
+          <PreprocessDialog
+            image={image}
+            isApplyingAll={isPreparingInputs}
+            onApply={(options, url) => handleApplyPreprocess(image.id, options, url)}
+            onApplyAll={handleApplyPreprocessAll}
+            onClose={() => setPreprocessingId(null)}
+          />
+        );
+      })()}
+
+      {compareTarget && (() => {
+        const owner = workspace.collections.find(c => c.id === compareTarget.collectionId);
+        const item = compareTarget.type === 'product'
+          ? owner?.images.find(i => i.id === compareTarget.id)
+          : owner?.stagedScenes.find(sc => sc.id === compareTarget.id);
+        if (!item?.versions?.length) return null;
+        return (
+          <VersionCompare
+            title={compareTarget.type === 'product' ? t('compare.productTitle') : t('compare.sceneTitle', { angle: catalogLabel(catalog, 'cameraAngle', (item as StagedScene).angle) })}
+            versions={item.versions}
+            catalog={catalog}
+            finalVersionId={item.finalVersionId}
+            onSelectFinal={(versionId) => handleSelectFinalVersion(compareTarget, versionId)}
+            onClose={() => setCompareTarget(null)}
+          />
+        );
+      })()}
+
+      {isTemplateEditorOpen && collection && (
+        <TemplateEditor
+          templates={templates}
+          initialKind={collection.mode === 'Individual' ? 'product' : 'staging'}
+          selectedIds={{
+            product: templates.some(tpl => tpl.id === collection.productTemplateId) ? collection.productTemplateId! : 'builtin-product',
+            staging: templates.some(tpl => tpl.id === collection.stagingTemplateId) ? collection.stagingTemplateId! : 'builtin-staging'
+          }}
+          previewVariables={{
+            product: productVariables(
+              collection.images[0]?.viewType ?? ViewType.FRONT,
+              collection.parameters,
+              collection.moodBoard.map(m => m.role),
+              [],
+              profileFor(collection.output, undefined, 'product'),
+              catalog
+            ),
+            staging: stagingVariables(collection.stagingParameters, collection.stagingParameters.viewpoints[0] ?? CameraAngle.WIDE, {
+              moodBoard: collection.moodBoard.map(m => m.role),
+              hasMasterShot: false,
+              profile: profileFor(collection.output, undefined, 'staging'),
+              catalog
+            })
+          }}
+          onSave={handleSaveTemplate}
+          onDelete={handleDeleteTemplate}
+          onSelect={handleSelectTemplate}
+          onClose={() => setIsTemplateEditorOpen(false)}
+        />
+      )}
+
+      {isCatalogOpen && (
+        <CatalogEditor
+          catalog={catalog}
+          onSave={handleSaveCatalogEntry}
+          onDelete={handleDeleteCatalogEntry}
+          onClose={() => setIsCatalogOpen(false)}
+        />
+      )}
+
       {editingState && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 backdrop-blur-xl bg-black/40 animate-in fade-in duration-300">
-          <div className="bg-white w-full max-w-2xl rounded-[40px] shadow-2xl overflow-hidden animate-in slide-in-from-bottom-8 duration-500">
+          <div className="bg-white w-full max-w-6xl max-h-[92vh] overflow-y-auto rounded-[40px] shadow-2xl animate-in slide-in-from-bottom-8 duration-500">
             <div className="p-8 border-b border-gray-100 flex items-center justify-between">
-              <h3 className="text-xl font-black text-gray-900">AI Fine-tuning</h3>
+              <h3 className="text-xl font-black text-gray-900">{t('edit.title')}</h3>
               <button onClick={() => setEditingState(null)} className="p-2 hover:bg-gray-100 rounded-full transition-colors text-gray-400">
                 <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
               </button>
             </div>
-            <div className="p-8 space-y-8">
-              <div className="aspect-video bg-gray-50 rounded-3xl overflow-hidden border border-gray-100 relative group">
-                <img src={editingState.imageUrl} className="w-full h-full object-contain" />
-                {editingState.isProcessing && (
-                  <div className="absolute inset-0 bg-white/80 backdrop-blur-md flex flex-col items-center justify-center animate-pulse">
-                    <div className="w-12 h-12 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mb-4"></div>
-                    <span className="text-xs font-black text-indigo-600 uppercase tracking-widest">Re-rendering...</span>
-                  </div>
-                )}
+            <div className="p-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+              <div className="lg:col-span-2 space-y-8">
+                <div className="relative">
+                  <MaskCanvas
+                    imageUrl={currentImage(editingState.session)}
+                    disabled={editingState.isProcessing}
+                    onChange={(maskUrl) => setEditingState(prev => prev ? { ...prev, maskUrl } : null)}
+                  />
+                  {editingState.isProcessing && (
+                    <div className="absolute inset-0 bg-white/80 backdrop-blur-md rounded-3xl flex flex-col items-center justify-center animate-pulse">
+                      <div className="w-12 h-12 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mb-4"></div>
+                      <span className="text-xs font-black text-indigo-600 uppercase tracking-widest">{t('edit.processing')}</span>
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-4">
+                  <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{t('edit.instructions')}</label>
+                  <textarea 
+                    className="w-full bg-gray-50 border-none rounded-2xl p-6 text-sm font-medium focus:ring-2 focus:ring-indigo-600 transition-all min-h-[120px] resize-none"
+                    placeholder={t('edit.placeholder')}
+                    value={editingState.prompt}
+                    onChange={(e) => setEditingState(prev => prev ? { ...prev, prompt: e.target.value } : null)}
+                    disabled={editingState.isProcessing}
+                  />
+                </div>
               </div>
-              <div className="space-y-4">
-                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Edit Instructions</label>
-                <textarea 
-                  className="w-full bg-gray-50 border-none rounded-2xl p-6 text-sm font-medium focus:ring-2 focus:ring-indigo-600 transition-all min-h-[120px] resize-none"
-                  placeholder="e.g., 'Change the floor to dark walnut wood', 'Add more sunlight from the left'..."
-                  value={editingState.prompt}
-                  onChange={(e) => setEditingState(prev => prev ? { ...prev, prompt: e.target.value } : null)}
+              <div className="flex flex-col space-y-6">
+                <EditSessionPanel
+                  session={editingState.session}
                   disabled={editingState.isProcessing}
+                  onUndo={() => updateSession(undo)}
+                  onRedo={() => updateSession(redo)}
+                  onJump={(id) => updateSession(session => jumpTo(session, id))}
                 />
-              </div>
-              <div className="flex space-x-4">
-                <Button variant="secondary" size="lg" className="flex-1 rounded-2xl font-black" onClick={() => setEditingState(null)} disabled={editingState.isProcessing}>Cancel</Button>
-                <Button variant="primary" size="lg" className="flex-1 rounded-2xl font-black shadow-xl shadow-indigo-100" onClick={handleApplyEdit} isLoading={editingState.isProcessing}>Regenerate</Button>
+                <div className="mt-auto space-y-3">
+                  <Button variant="primary" size="lg" className="w-full rounded-2xl font-black shadow-xl shadow-indigo-100" onClick={handleApplyEdit} isLoading={editingState.isProcessing} disabled={!editingState.prompt}>{t('edit.apply')}</Button>
+                  <Button variant="secondary" size="lg" className="w-full rounded-2xl font-black" onClick={handleCommitEdit} disabled={editingState.isProcessing || !editingState.session.currentId}>{t('edit.commit')}</Button>
+                  <Button variant="ghost" size="lg" className="w-full rounded-2xl font-black" onClick={() => setEditingState(null)} disabled={editingState.isProcessing}>{t('common.cancel')}</Button>
+                </div>
               </div>
             </div>
           </div>
@@ -400,90 +1195,124 @@ const App: React.FC = () => {
               </svg>
             </div>
             <h2 className="text-5xl font-black mb-6 text-gray-900 tracking-tight relative z-10 uppercase">Consistency <span className="text-indigo-600">Pro</span></h2>
-            <p className="text-gray-400 max-w-xl mx-auto mb-12 text-xl font-medium relative z-10 leading-relaxed">Bộ giải pháp Render CGI chuyên nghiệp dành cho Catalog sản phẩm và phối cảnh nội thất từ bất kỳ bức ảnh chụp điện thoại nào.</p>
-            <Button onClick={handleCreateCollection} size="lg" className="rounded-2xl px-12 py-5 text-lg font-black shadow-2xl shadow-indigo-200 relative z-10">Tạo dự án mới</Button>
+            <p className="text-gray-400 max-w-xl mx-auto mb-12 text-xl font-medium relative z-10 leading-relaxed">{t('home.description')}</p>
+            <div className="flex items-center justify-center space-x-4 relative z-10">
+              <Button onClick={handleCreateCollection} size="lg" className="rounded-2xl px-12 py-5 text-lg font-black shadow-2xl shadow-indigo-200">{t('home.create')}</Button>
+              <Button onClick={() => bundleInputRef.current?.click()} variant="secondary" size="lg" className="rounded-2xl px-8 py-5 text-lg font-black">{t('home.open', { extension: BUNDLE_EXTENSION })}</Button>
+              <input
+                type="file"
+                ref={bundleInputRef}
+                className="hidden"
+                accept={`${BUNDLE_EXTENSION},application/json`}
+                onChange={(e) => {
+                  if (e.target.files?.[0]) handleImportBundle(e.target.files[0]);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            <div className="relative z-10 max-w-5xl mx-auto px-6 text-left">
+              <ProjectList
+                collections={workspace.collections}
+                onOpen={handleSwitchProject}
+                onDuplicate={handleDuplicateProject}
+                onExport={handleExportBundle}
+                onDelete={handleDeleteProject}
+              />
+            </div>
           </div>
         ) : (
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-12">
             <aside className="lg:col-span-1 space-y-8">
-              <div className="bg-white p-8 rounded-[32px] shadow-sm border border-gray-100 sticky top-28">
+              <div className="bg-white p-8 rounded-[32px] shadow-sm border border-gray-100 space-y-6">
+                <h3 className="text-xs font-black uppercase text-indigo-600 tracking-widest">{t('project.title')}</h3>
+                <div>
+                  <label className="text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider">{t('project.client')}</label>
+                  <input className="w-full bg-gray-50 border-none rounded-2xl p-4 text-sm font-black shadow-sm focus:ring-2 focus:ring-indigo-600 transition-all" value={collection.metadata.client} onChange={(e) => handleUpdateMetadata('client', e.target.value)} />
+                </div>
+                <div>
+                  <label className="text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider">{t('project.skuPrefix')}</label>
+                  <input className="w-full bg-gray-50 border-none rounded-2xl p-4 text-sm font-black shadow-sm focus:ring-2 focus:ring-indigo-600 transition-all uppercase" value={collection.metadata.skuPrefix} onChange={(e) => handleUpdateMetadata('skuPrefix', e.target.value)} />
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="secondary" size="sm" className="flex-1 rounded-xl font-black" disabled={countExportable(collection) === 0} onClick={() => setIsExportOpen(true)}>
+                    {t('project.exportZip', { count: countExportable(collection) })}
+                  </Button>
+                  <Button variant="secondary" size="sm" className="flex-1 rounded-xl font-black" onClick={() => handleExportBundle(collection.id)}>
+                    {t('project.saveBundle', { extension: BUNDLE_EXTENSION })}
+                  </Button>
+                </div>
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider leading-relaxed">
+                  {t('project.created', { date: formatDate(collection.metadata.createdAt) })}<br />
+                  {t('project.updated', { date: formatDateTime(collection.metadata.updatedAt) })}
+                </p>
+              </div>
+              <OutputProfilePanel
+                output={collection.output}
+                kind={collection.mode === 'Individual' ? 'product' : 'staging'}
+                previewUrl={(collection.mode === 'Individual' ? collection.images : collection.stagedScenes).find(item => item.renderedUrl)?.renderedUrl}
+                upscaleCount={upscaleCount}
+                isRendering={isRendering}
+                onChange={(output) => setCollection({ ...collection, output })}
+                onUpscaleFinals={handleUpscaleFinals}
+              />
+              <FidelityPanel
+                settings={collection.fidelity}
+                lowCount={lowFidelityCount}
+                isRendering={isRendering}
+                onChange={(fidelity) => setCollection({ ...collection, fidelity })}
+                onRerenderLow={handleRerenderLowFidelity}
+              />
+              <UsagePanel
+                usage={collection.usage}
+                budget={collection.budget}
+                onChangeBudget={(budget) => setCollection({ ...collection, budget })}
+                onOpenDashboard={() => setIsUsageOpen(true)}
+              />
+              <PresetLibrary
+                presets={presets}
+                catalog={catalog}
+                onApply={(preset) => setCollection(applyPreset(collection, preset))}
+                onSaveCurrent={handleSavePreset}
+                onDelete={handleDeletePreset}
+                onExport={handleExportPresets}
+                onImport={handleImportPresets}
+              />
+              <div className="bg-white p-8 rounded-[32px] shadow-sm border border-gray-100">
                 <div className="flex items-center justify-between mb-8">
-                  <h3 className="text-xs font-black uppercase text-indigo-600 tracking-widest">Environment</h3>
+                  <h3 className="text-xs font-black uppercase text-indigo-600 tracking-widest">{t('project.environment')}</h3>
+                  <button onClick={() => setIsCatalogOpen(true)} className="px-2 py-1 text-[9px] font-black uppercase rounded-lg text-gray-400 hover:bg-gray-100">{t('catalog.button')}</button>
                 </div>
                 
                 <div className="space-y-6">
-                  <div>
-                    <label className="text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider">Mood Board (Reference)</label>
-                    <div 
-                      onClick={() => moodBoardRef.current?.click()}
-                      className="w-full aspect-video bg-gray-50 rounded-2xl border-2 border-dashed border-gray-200 flex flex-col items-center justify-center cursor-pointer hover:bg-indigo-50 hover:border-indigo-200 transition-all overflow-hidden relative group"
-                    >
-                      {collection.referenceImage ? (
-                        <>
-                          <img src={collection.referenceImage} className="w-full h-full object-cover" />
-                          <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-opacity">
-                            <span className="text-white text-[10px] font-bold uppercase tracking-widest">Change</span>
-                          </div>
-                          <button 
-                            onClick={handleRemoveMoodBoard}
-                            className="absolute top-2 right-2 w-7 h-7 bg-red-500 hover:bg-red-600 text-white rounded-full flex items-center justify-center shadow-lg transition-transform hover:scale-110 z-20"
-                          >
-                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" />
-                            </svg>
-                          </button>
-                        </>
-                      ) : (
-                        <>
-                          <svg className="w-8 h-8 text-gray-300 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
-                          <span className="text-[9px] font-black text-gray-400 uppercase tracking-widest text-center px-4">Upload Concept</span>
-                        </>
-                      )}
-                    </div>
-                    <input type="file" ref={moodBoardRef} className="hidden" onChange={handleMoodBoardUpload} accept="image/*" />
-                  </div>
+                  <MoodBoardPanel
+                    images={collection.moodBoard}
+                    onAdd={handleAddMoodBoard}
+                    onSetRole={handleSetMoodBoardRole}
+                    onRemove={handleRemoveMoodBoard}
+                    onApplyPalette={(palette) => handleUpdateParams('colorPalette', palette)}
+                  />
 
                   <div>
-                    <label className="text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider">Light Theme</label>
-                    <select className="w-full bg-gray-50 border-none rounded-2xl p-4 text-sm font-black shadow-sm focus:ring-2 focus:ring-indigo-600 transition-all appearance-none" value={collection.mode === 'Individual' ? collection.parameters.lightingEnv : collection.stagingParameters.lightingEnv} onChange={(e) => handleUpdateParams('lightingEnv', e.target.value)}>
-                      {Object.values(LightingEnvironment).map(t => <option key={t} value={t}>{t}</option>)}
-                    </select>
-                  </div>
-
-                  <div>
-                    <label className="text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider">Room Scene</label>
-                    <select className="w-full bg-gray-50 border-none rounded-2xl p-4 text-sm font-black shadow-sm focus:ring-2 focus:ring-indigo-600 transition-all appearance-none" value={collection.mode === 'Individual' ? collection.parameters.roomType : collection.stagingParameters.roomType} onChange={(e) => handleUpdateParams('roomType', e.target.value)}>
-                      {Object.values(RoomType).map(t => <option key={t} value={t}>{t}</option>)}
-                    </select>
+                    <label className="text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider">{t('template.label')}</label>
+                    <div className="flex items-center space-x-2">
+                      <span className="flex-grow bg-gray-50 rounded-2xl p-4 text-sm font-black truncate">
+                        {templateName(collection.mode === 'Individual'
+                          ? templates.find(tpl => tpl.id === collection.productTemplateId && tpl.kind === 'product') ?? BUILT_IN_TEMPLATES[0]
+                          : templates.find(tpl => tpl.id === collection.stagingTemplateId && tpl.kind === 'staging') ?? BUILT_IN_TEMPLATES[1]
+                        )}
+                      </span>
+                      <Button variant="ghost" size="sm" className="rounded-xl font-black" onClick={() => setIsTemplateEditorOpen(true)}>{t('common.edit')}</Button>
+                    </div>
                   </div>
 
-                  <div>
-                    <label className="text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider">Design Philosophy</label>
-                    <select className="w-full bg-gray-50 border-none rounded-2xl p-4 text-sm font-black shadow-sm focus:ring-2 focus:ring-indigo-600 transition-all appearance-none" value={collection.mode === 'Individual' ? collection.parameters.designStyle : collection.stagingParameters.designStyle} onChange={(e) => handleUpdateParams('designStyle', e.target.value)}>
-                      {Object.values(DesignStyle).map(s => <option key={s} value={s}>{s}</option>)}
-                    </select>
-                  </div>
-                  
-                  {collection.mode === 'Staging' && (
-                    <div className="pt-8 border-t border-gray-100">
-                      <label className="text-[10px] font-black text-gray-400 uppercase mb-5 block tracking-wider">Camera Positions</label>
-                      <div className="grid grid-cols-1 gap-3">
-                        {Object.values(CameraAngle).map(angle => (
-                          <button
-                            key={angle}
-                            onClick={() => toggleViewpoint(angle)}
-                            className={`flex items-center px-4 py-3.5 rounded-2xl text-[10px] font-black transition-all border-2 ${
-                              collection.stagingParameters.viewpoints.includes(angle)
-                                ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg'
-                                : 'bg-white border-gray-50 text-gray-500 hover:border-indigo-100'
-                            }`}
-                          >
-                            {angle}
-                          </button>
-                        ))}
-                      </div>
-                    </div>
-                  )}
+                  <ParameterPanel
+                    params={collection.mode === 'Individual' ? collection.parameters : collection.stagingParameters}
+                    stagingParams={collection.mode === 'Staging' ? collection.stagingParameters : undefined}
+                    catalog={catalog}
+                    errors={paramErrors}
+                    onChange={handleUpdateParams}
+                    onToggleViewpoint={toggleViewpoint}
+                  />
                 </div>
               </div>
             </aside>
@@ -492,38 +1321,160 @@ const App: React.FC = () => {
               <section>
                 <div className="flex items-center justify-between mb-8">
                   <div className="flex items-center space-x-4">
-                    <h3 className="text-2xl font-black text-gray-900">Input Materials</h3>
-                    <span className="bg-gray-200 text-gray-600 text-[10px] font-black px-3 py-1 rounded-full uppercase">{collection.images.length} Units</span>
+                    <h3 className="text-2xl font-black text-gray-900">{t('inputs.title')}</h3>
+                    <span className="bg-gray-200 text-gray-600 text-[10px] font-black px-3 py-1 rounded-full uppercase">{t('inputs.units', { count: collection.images.filter(img => img.inputStatus !== InputStatus.REMOVED).length })}</span>
                   </div>
                   <div className="flex space-x-3">
-                    <Button variant="secondary" size="sm" className="rounded-xl px-5 font-black" onClick={() => fileInputRef.current?.click()}>+ Add Objects</Button>
+                    <Button variant="secondary" size="sm" className="rounded-xl px-5 font-black" isLoading={isPreparingInputs} onClick={() => fileInputRef.current?.click()}>{t('inputs.add')}</Button>
                     <input type="file" multiple className="hidden" ref={fileInputRef} onChange={handleAddImages} />
-                    <Button variant="secondary" size="sm" className="rounded-xl px-5 font-black border-indigo-600 text-indigo-600" onClick={() => setCollection({...collection, isConfirmed: true, images: collection.images.map(i => ({...i, inputStatus: InputStatus.CONFIRMED}))})}>Confirm Selection</Button>
+                    <Button variant="secondary" size="sm" className="rounded-xl px-5 font-black border-indigo-600 text-indigo-600" onClick={() => setCollection(confirmInputs(collection))}>{t('inputs.confirm')}</Button>
+                    <input type="file" className="hidden" ref={replaceInputRef} onChange={handleReplaceImage} accept="image/*" />
                   </div>
                 </div>
+                <ProductGroups
+                  products={collection.products}
+                  images={collection.images}
+                  onUpdate={handleUpdateProduct}
+                  onUngroup={(id) => setCollection(ungroupProduct(collection, id))}
+                />
+                {collection.images.some(img => img.isSelected) && (
+                  <div className="flex items-center space-x-3 mb-6 bg-indigo-50/50 rounded-2xl px-5 py-3">
+                    <span className="text-[10px] font-black text-indigo-600 uppercase tracking-wider flex-grow">{t('inputs.selected', { count: collection.images.filter(img => img.isSelected).length })}</span>
+                    <Button variant="secondary" size="sm" className="rounded-xl font-black" onClick={handleGroupSelected}>{t('inputs.group')}</Button>
+                    {workspace.collections.length > 1 && (
+                      <>
+                        <select
+                          className="bg-white border-none rounded-xl px-3 py-2 text-xs font-black text-gray-600 focus:ring-2 focus:ring-indigo-600"
+                          value={transferTargetId}
+                          onChange={(e) => setTransferTargetId(e.target.value)}
+                        >
+                          <option value="">{t('inputs.targetProject')}</option>
+                          {workspace.collections.filter(c => c.id !== collection.id).map(c => (
+                            <option key={c.id} value={c.id}>{c.name}</option>
+                          ))}
+                        </select>
+                        <Button variant="secondary" size="sm" className="rounded-xl font-black" disabled={!transferTargetId} onClick={() => handleTransferImages('copy')}>{t('inputs.copy')}</Button>
+                        <Button variant="secondary" size="sm" className="rounded-xl font-black" disabled={!transferTargetId || isRendering} onClick={() => handleTransferImages('move')}>{t('inputs.move')}</Button>
+                      </>
+                    )}
+                  </div>
+                )}
+                <div className="flex space-x-2 mb-6">
+                  {INPUT_FILTERS.map(filter => (
+                    <button
+                      key={filter}
+                      onClick={() => setInputFilter(filter)}
+                      className={`px-4 py-2 text-[10px] font-black uppercase rounded-xl transition-all ${inputFilter === filter ? 'bg-gray-900 text-white' : 'bg-white text-gray-400 hover:text-gray-600 border border-gray-100'}`}
+                    >
+                      {t(`inputFilter.${filter}`)} ({collection.images.filter(img => matchesInputFilter(img, filter)).length})
+                    </button>
+                  ))}
+                </div>
                 <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-5 gap-6">
-                  {collection.images.map(img => (
+                  {collection.images.filter(img => matchesInputFilter(img, inputFilter)).map(img => (
                     <div 
                       key={img.id} 
-                      className={`group relative aspect-square bg-white rounded-3xl border-2 transition-all cursor-pointer overflow-hidden ${img.isSelected ? 'border-indigo-600 ring-4 ring-indigo-50 shadow-2xl scale-95' : 'border-gray-50 hover:border-indigo-100'}`}
-                      onClick={() => toggleImageSelection(img.id)}
+                      className={`group relative aspect-square bg-white rounded-3xl border-2 transition-all cursor-pointer overflow-hidden ${img.isSelected ? 'border-indigo-600 ring-4 ring-indigo-50 shadow-2xl scale-95' : 'border-gray-50 hover:border-indigo-100'} ${img.inputStatus === InputStatus.REMOVED ? 'opacity-50 grayscale' : ''}`}
+                      onClick={() => img.inputStatus !== InputStatus.REMOVED && toggleImageSelection(img.id)}
                     >
                       <img src={img.renderedUrl || img.originalUrl} className="w-full h-full object-contain p-6" />
+                      {img.inputStatus !== InputStatus.CONFIRMED && (
+                        <span className="absolute bottom-3 left-3 px-2 py-1 bg-gray-900/70 text-white rounded-lg text-[8px] font-black uppercase group-hover:opacity-0 transition-opacity">{t(`inputFilter.${img.inputStatus}`)}</span>
+                      )}
+                      <div className="absolute bottom-3 left-3 flex space-x-1.5 opacity-0 group-hover:opacity-100 transition-all" onClick={(e) => e.stopPropagation()}>
+                        {img.inputStatus === InputStatus.REMOVED ? (
+                          <button onClick={() => setCollection(restoreInput(collection, img.id))} className="px-2 h-8 bg-white text-indigo-600 rounded-xl text-[9px] font-black uppercase shadow-lg">{t('inputs.restore')}</button>
+                        ) : (
+                          <>
+                            <button
+                              title={t('inputs.preprocess')}
+                              onClick={() => setPreprocessingId(img.id)}
+                              className="w-8 h-8 bg-white text-gray-600 hover:text-indigo-600 rounded-xl flex items-center justify-center shadow-lg"
+                            >
+                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
+                            </button>
+                            <button
+                              title={t('inputs.replace')}
+                              onClick={() => { setReplacingId(img.id); replaceInputRef.current?.click(); }}
+                              className="w-8 h-8 bg-white text-gray-600 hover:text-indigo-600 rounded-xl flex items-center justify-center shadow-lg"
+                            >
+                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                            </button>
+                            <button
+                              title={t('inputs.remove')}
+                              disabled={img.renderStatus === 'processing'}
+                              onClick={() => setCollection(removeInput(collection, img.id))}
+                              className="w-8 h-8 bg-white text-gray-600 hover:text-red-500 rounded-xl flex items-center justify-center shadow-lg disabled:opacity-40"
+                            >
+                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                            </button>
+                          </>
+                        )}
+                      </div>
+                      <div className="absolute top-3 left-3 right-3 flex items-center justify-between" onClick={(e) => e.stopPropagation()}>
+                        <select
+                          className="bg-white/90 backdrop-blur border-none rounded-lg pl-2 pr-6 py-1 text-[9px] font-black uppercase text-gray-600 shadow-sm focus:ring-2 focus:ring-indigo-600"
+                          value={img.viewType}
+                          onChange={(e) => handleSetViewType(img.id, e.target.value as ViewType)}
+                        >
+                          {Object.values(ViewType).map(v => <option key={v} value={v}>{t(`viewType.${v}`)}</option>)}
+                        </select>
+                        {img.productId && (
+                          <span className="px-2 py-1 bg-indigo-600 text-white rounded-lg text-[9px] font-black uppercase truncate max-w-[50%]">
+                            {collection.products.find(p => p.id === img.productId)?.sku}
+                          </span>
+                        )}
+                      </div>
+                      {img.renderStatus === 'completed' && isLowFidelity(finalVersion(img), collection.fidelity) && (
+                        <FidelityBadge report={finalVersion(img)!.fidelity!} className="absolute top-12 left-3 px-2 py-1 rounded-lg text-[8px]" />
+                      )}
+                      {img.renderStatus === 'error' && (
+                        <span title={img.errorMessage} className="absolute top-12 left-3 right-3 px-2 py-1 bg-red-500 text-white rounded-lg text-[8px] font-black truncate">
+                          {img.errorMessage || t('inputs.error')}
+                        </span>
+                      )}
+                      {img.renderedUrl && img.renderStatus === 'pending' && (
+                        <span title={t('render.staleHint')} className="absolute top-12 left-3 px-2 py-1 bg-amber-500 text-white rounded-lg text-[8px] font-black uppercase">{t('render.stale')}</span>
+                      )}
                       {img.renderStatus === 'processing' && (
                         <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex flex-col items-center justify-center">
                           <div className="w-8 h-8 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin mb-2"></div>
                         </div>
                       )}
-                      {img.renderedUrl && (
-                        <button 
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setEditingState({ type: 'product', id: img.id, imageUrl: img.renderedUrl!, prompt: '', isProcessing: false });
-                          }}
-                          className="absolute bottom-3 right-3 w-8 h-8 bg-indigo-600 text-white rounded-xl flex items-center justify-center shadow-lg opacity-0 group-hover:opacity-100 transition-all"
-                        >
-                          <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
-                        </button>
+                      {img.renderedUrl && img.renderStatus !== 'processing' && (
+                        <div className="absolute bottom-3 right-3 flex flex-row-reverse gap-1.5 opacity-0 group-hover:opacity-100 transition-all" onClick={(e) => e.stopPropagation()}>
+                          <button 
+                            onClick={() => setEditingState({ collectionId: collection.id, type: 'product', id: img.id, session: createSession(img.renderedUrl!), prompt: '', isProcessing: false })}
+                            className="w-8 h-8 bg-indigo-600 text-white rounded-xl flex items-center justify-center shadow-lg"
+                          >
+                            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+                          </button>
+                          <button
+                            title={t('scene.download', { size: finalSize(img) })}
+                            onClick={() => handleDownload(collection, 'product', img)}
+                            className="h-8 px-2 bg-white text-gray-600 hover:text-indigo-600 rounded-xl flex items-center justify-center shadow-lg text-[9px] font-black"
+                          >
+                            <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>{finalSize(img)}
+                          </button>
+                          {needsUpscale(img, collection.output.finalResolution) && (
+                            <button
+                              title={t('scene.upscaleTo', { size: collection.output.finalResolution })}
+                              onClick={() => enqueueUpscale(collection, 'product', img)}
+                              className="h-8 px-2 bg-white text-gray-600 hover:text-indigo-600 rounded-xl flex items-center justify-center shadow-lg text-[9px] font-black"
+                            >
+                              ↑{collection.output.finalResolution}
+                            </button>
+                          )}
+                          {(img.versions?.length ?? 0) > 1 && (
+                            <button
+                              title={t('inputs.versionHistory')}
+                              onClick={() => setCompareTarget({ collectionId: collection.id, type: 'product', id: img.id })}
+                              className="h-8 px-2 bg-white text-gray-600 hover:text-indigo-600 rounded-xl flex items-center justify-center shadow-lg text-[9px] font-black"
+                            >
+                              <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>{img.versions!.length}
+                            </button>
+                          )}
+                        </div>
                       )}
                     </div>
                   ))}
@@ -533,57 +1484,105 @@ const App: React.FC = () => {
               {collection.stagedScenes.length > 0 && (
                 <section className="animate-in fade-in slide-in-from-bottom-12 duration-1000">
                   <div className="flex items-center space-x-6 mb-10">
-                    <h3 className="text-3xl font-black text-gray-900 uppercase">CGI Result <span className="text-indigo-600">Stack</span></h3>
+                    <h3 className="text-3xl font-black text-gray-900 uppercase">{t('scene.stackTitle')}</h3>
                     <div className="h-1 bg-gray-100 flex-grow rounded-full overflow-hidden">
                        <div className="h-full bg-indigo-600 transition-all duration-1000" style={{ width: `${(collection.stagedScenes.filter(s => s.status === 'completed').length / collection.stagedScenes.length) * 100}%` }}></div>
                     </div>
                   </div>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-10">
-                    {collection.stagedScenes.map((scene, index) => (
-                      <div key={scene.id} className="bg-white rounded-[48px] border border-gray-100 overflow-hidden shadow-sm hover:shadow-3xl transition-all group">
-                        <div className="aspect-video bg-gray-100 relative overflow-hidden">
-                          {scene.renderedUrl ? (
-                            <img src={scene.renderedUrl} className="w-full h-full object-cover transition-transform duration-[1500ms] group-hover:scale-105" />
-                          ) : (
-                            <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-50">
-                              {scene.status === 'processing' ? (
-                                <div className="flex flex-col items-center space-y-4">
-                                  <div className="w-16 h-16 border-[6px] border-indigo-100 border-t-indigo-600 rounded-full animate-spin"></div>
-                                  <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">{scene.angle} Render...</span>
-                                </div>
-                              ) : (
-                                <span className="text-[10px] font-black text-gray-300 uppercase">Waiting in Queue</span>
+                    {collection.stagedScenes.map((scene, index) => {
+                      const profile = profileFor(collection.output, scene.profileId, 'staging');
+                      return (
+                        <div key={scene.id} className="bg-white rounded-[48px] border border-gray-100 overflow-hidden shadow-sm hover:shadow-3xl transition-all group">
+                          <div className="bg-gray-100 relative overflow-hidden" style={{ aspectRatio: profile.aspectRatio.replace(':', ' / ') }}>
+                            {scene.renderedUrl ? (
+                              <img src={scene.renderedUrl} className="w-full h-full object-cover transition-transform duration-[1500ms] group-hover:scale-105" />
+                            ) : (
+                              <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-50">
+                                {scene.status === 'processing' ? (
+                                  <div className="flex flex-col items-center space-y-4">
+                                    <div className="w-16 h-16 border-[6px] border-indigo-100 border-t-indigo-600 rounded-full animate-spin"></div>
+                                    <span className="text-[10px] font-black text-indigo-600 uppercase tracking-widest">{t('scene.rendering', { angle: catalogLabel(catalog, 'cameraAngle', scene.angle) })}</span>
+                                  </div>
+                                ) : scene.status === 'error' ? (
+                                  <div className="flex flex-col items-center space-y-2 px-10 text-center">
+                                    <span className="text-[10px] font-black text-red-500 uppercase tracking-widest">{t('scene.failed')}</span>
+                                    <span className="text-xs font-bold text-gray-400">{scene.errorMessage}</span>
+                                  </div>
+                                ) : (
+                                  <span className="text-[10px] font-black text-gray-300 uppercase">{t('scene.waiting')}</span>
+                                )}
+                              </div>
+                            )}
+                            {scene.renderedUrl && <SafeArea margin={profile.safeMargin} className="opacity-0 group-hover:opacity-100 transition-opacity" />}
+                            <div className="absolute top-6 left-6 flex space-x-3">
+                              <span className="px-5 py-2.5 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase shadow-lg">
+                                {!scene.masterSceneId && (index === 0 || collection.stagedScenes.some(s => s.masterSceneId === scene.id)) ? t('scene.master') : t('scene.perspective')}
+                              </span>
+                              <span className="px-5 py-2.5 bg-black/50 backdrop-blur text-white rounded-2xl text-[10px] font-black uppercase">{catalogLabel(catalog, 'cameraAngle', scene.angle)}</span>
+                              {scene.status === 'completed' && isLowFidelity(finalVersion(scene), collection.fidelity) && (
+                                <FidelityBadge report={finalVersion(scene)!.fidelity!} className="px-5 py-2.5 rounded-2xl text-[10px]" />
+                              )}
+                              {scene.renderedUrl && scene.status === 'pending' && (
+                                <span title={t('render.staleHint')} className="px-5 py-2.5 bg-amber-500 text-white rounded-2xl text-[10px] font-black uppercase">{t('render.stale')}</span>
                               )}
                             </div>
-                          )}
-                          <div className="absolute top-6 left-6 flex space-x-3">
-                            <span className="px-5 py-2.5 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase shadow-lg">
-                              {index === 0 ? 'Master Reference' : 'Perspective Shift'}
-                            </span>
-                            <span className="px-5 py-2.5 bg-black/50 backdrop-blur text-white rounded-2xl text-[10px] font-black uppercase">{scene.angle}</span>
-                          </div>
-                        </div>
-                        <div className="p-8 flex items-center justify-between">
-                          <div className="flex -space-x-3">
-                            {scene.productIds.slice(0, 3).map(pid => {
-                              const p = collection.images.find(img => img.id === pid);
-                              return p ? <img key={pid} src={p.originalUrl} className="w-10 h-10 rounded-xl border-2 border-white bg-gray-50 object-contain shadow-sm" /> : null;
-                            })}
                           </div>
-                          {scene.renderedUrl && (
-                            <div className="flex space-x-3">
-                               <button 
-                                onClick={() => setEditingState({ type: 'scene', id: scene.id, imageUrl: scene.renderedUrl!, prompt: '', isProcessing: false })}
-                                className="p-3.5 bg-indigo-50 text-indigo-600 hover:bg-indigo-100 rounded-2xl transition-all"
-                               >
-                                 <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
-                               </button>
-                               <Button variant="primary" size="md" className="rounded-2xl shadow-xl font-black px-10" onClick={() => window.open(scene.renderedUrl)}>Download 4K</Button>
+                          <div className="p-8 flex items-center justify-between">
+                            <div className="flex -space-x-3">
+                              {scene.productIds.slice(0, 3).map(pid => {
+                                const p = collection.images.find(img => img.id === pid);
+                                return p ? <img key={pid} src={p.originalUrl} className="w-10 h-10 rounded-xl border-2 border-white bg-gray-50 object-contain shadow-sm" /> : null;
+                              })}
                             </div>
-                          )}
+                            {scene.renderedUrl && scene.status !== 'processing' && (
+                              <div className="flex space-x-3">
+                                 {(scene.versions?.length ?? 0) > 1 && (
+                                   <button
+                                    title={t('inputs.versionHistory')}
+                                    onClick={() => setCompareTarget({ collectionId: collection.id, type: 'scene', id: scene.id })}
+                                    className="px-4 bg-gray-50 text-gray-500 hover:bg-gray-100 rounded-2xl transition-all flex items-center text-xs font-black"
+                                   >
+                                     <svg className="w-5 h-5 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>{scene.versions!.length}
+                                   </button>
+                                 )}
+                                 <button 
+                                  onClick={() => setEditingState({ collectionId: collection.id, type: 'scene', id: scene.id, session: createSession(scene.renderedUrl!), prompt: '', isProcessing: false })}
+                                  className="p-3.5 bg-indigo-50 text-indigo-600 hover:bg-indigo-100 rounded-2xl transition-all"
+                                 >
+                                   <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
+                                 </button>
+                                 {needsUpscale(scene, collection.output.finalResolution) && (
+                                   <Button variant="secondary" size="md" className="rounded-2xl font-black" onClick={() => enqueueUpscale(collection, 'scene', scene)}>
+                                     {t('scene.upscale', { size: collection.output.finalResolution })}
+                                   </Button>
+                                 )}
+                                 <Button variant="primary" size="md" className="rounded-2xl shadow-xl font-black px-10" onClick={() => handleDownload(collection, 'scene', scene)}>{t('scene.download', { size: finalSize(scene) })}</Button>
+                              </div>
+                            )}
+                          </div>
+                          <div className="px-8 pb-8 flex items-center space-x-3">
+                            <select
+                              className="flex-grow min-w-0 bg-gray-50 border-none rounded-2xl px-4 py-3 text-xs font-black text-gray-600 focus:ring-2 focus:ring-indigo-600"
+                              value={scene.profileId ?? ''}
+                              onChange={(e) => handleSetSceneProfile(scene.id, e.target.value || undefined)}
+                            >
+                              <option value="">{t('scene.defaultProfile')} · {describeProfile(profileFor(collection.output, undefined, 'staging'))}</option>
+                              {allProfiles(collection.output).map(p => <option key={p.id} value={p.id}>{describeProfile(p)}</option>)}
+                            </select>
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              className="rounded-2xl font-black"
+                              disabled={scene.status === 'processing' || scene.status === 'pending' && isRendering}
+                              onClick={() => handleRerenderScene(scene)}
+                            >
+                              {t('scene.rerender')}
+                            </Button>
+                          </div>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </section>
               )}
@@ -594,7 +1593,7 @@ const App: React.FC = () => {
       
       <footer className="bg-white border-t border-gray-100 py-16 mt-20">
         <div className="max-w-7xl mx-auto px-6 text-center text-gray-400 text-sm font-medium">
-          <p>© 2025 Lem Studio AI - Professional Visualization Engine</p>
+          <p>{t('app.footer')}</p>
         </div>
       </footer>
     </div>
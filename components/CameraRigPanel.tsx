@@ -0,0 +1,105 @@
+import React, { useRef } from 'react';
+import { CameraRig } from '../types';
+import { CAMERA_FIELDS, CAMERA_LIMITS, clampRig, fieldOfView, normalizeAzimuth } from '../services/camera';
+import { t } from '../services/i18n';
+
+interface CameraRigPanelProps {
+  rig: CameraRig;
+  disabled?: boolean;
+  onChange: (rig: CameraRig) => void;
+}
+
+const SIZE = 200;
+const CENTER = SIZE / 2;
+const SCALE = 85 / CAMERA_LIMITS.distance.max; // px trên mỗi mét
+const RINGS = [2, 4, 6, 8, 10, 12];
+
+const UNITS: Record<keyof CameraRig, string> = { focalLength: 'mm', height: 'm', distance: 'm', azimuth: '°', tilt: '°' };
+
+// Nhìn từ trên xuống, mặt trước sản phẩm quay về phía dưới; góc quay tăng theo chiều kim đồng hồ
+const toPoint = (azimuth: number, distance: number) => {
+  const rad = azimuth * Math.PI / 180;
+  return { x: CENTER - Math.sin(rad) * distance * SCALE, y: CENTER + Math.cos(rad) * distance * SCALE };
+};
+
+/** Top-down view of the hero product; drag the camera to set its orbit angle and distance. */
+const CameraDiagram: React.FC<CameraRigPanelProps> = ({ rig, disabled, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const draggingRef = useRef(false);
+
+  const camera = toPoint(rig.azimuth, rig.distance);
+  const half = fieldOfView(rig.focalLength) / 2 * Math.PI / 180;
+  const aim = Math.atan2(CENTER - camera.y, CENTER - camera.x);
+  const reach = rig.distance * SCALE + 30;
+  const cone = [aim - half, aim + half].map(a => `${camera.x + Math.cos(a) * reach},${camera.y + Math.sin(a) * reach}`);
+
+  const placeAt = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const dx = (e.clientX - rect.left) * SIZE / rect.width - CENTER;
+    const dy = (e.clientY - rect.top) * SIZE / rect.height - CENTER;
+    onChange(clampRig({
+      ...rig,
+      azimuth: normalizeAzimuth(Math.atan2(-dx, dy) * 180 / Math.PI),
+      distance: Math.hypot(dx, dy) / SCALE
+    }));
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      className={`w-full max-w-[240px] aspect-square bg-gray-50 rounded-3xl touch-none select-none ${disabled ? 'opacity-60' : 'cursor-crosshair'}`}
+      onPointerDown={(e) => {
+        if (disabled) return;
+        draggingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        placeAt(e);
+      }}
+      onPointerMove={(e) => draggingRef.current && placeAt(e)}
+      onPointerUp={() => { draggingRef.current = false; }}
+    >
+      <defs>
+        <clipPath id="camera-diagram-clip"><rect width={SIZE} height={SIZE} rx={24} /></clipPath>
+      </defs>
+      <g clipPath="url(#camera-diagram-clip)">
+        {RINGS.map(r => <circle key={r} cx={CENTER} cy={CENTER} r={r * SCALE} fill="none" stroke="#e5e7eb" strokeDasharray="2 3" />)}
+        <polygon points={`${camera.x},${camera.y} ${cone.join(' ')}`} fill="#4f46e5" fillOpacity={0.12} />
+        <line x1={camera.x} y1={camera.y} x2={CENTER} y2={CENTER} stroke="#4f46e5" strokeOpacity={0.4} strokeDasharray="3 3" />
+      </g>
+      <rect x={CENTER - 14} y={CENTER - 9} width={28} height={18} rx={3} fill="#111827" />
+      <line x1={CENTER - 14} y1={CENTER + 9} x2={CENTER + 14} y2={CENTER + 9} stroke="#f59e0b" strokeWidth={3} />
+      <text x={CENTER} y={CENTER + 22} textAnchor="middle" className="fill-gray-400 text-[8px] font-black uppercase">{t('camera.front')}</text>
+      <circle cx={camera.x} cy={camera.y} r={7} fill="#4f46e5" stroke="white" strokeWidth={2} />
+    </svg>
+  );
+};
+
+const CameraRigPanel: React.FC<CameraRigPanelProps> = ({ rig, disabled, onChange }) => (
+  <div className="flex items-start space-x-6">
+    <div className="flex-shrink-0 w-[200px] space-y-2">
+      <CameraDiagram rig={rig} disabled={disabled} onChange={onChange} />
+      <p className="text-[9px] font-bold text-gray-400 text-center">{t('camera.diagramHint')}</p>
+    </div>
+    <div className="flex-grow space-y-3">
+      {CAMERA_FIELDS.map(field => (
+        <label key={field} className="block">
+          <span className="text-[10px] font-black text-gray-400 uppercase tracking-wider">
+            {t(`camera.${field}`)} · {rig[field]}{UNITS[field]}
+          </span>
+          <input
+            type="range"
+            min={CAMERA_LIMITS[field].min}
+            max={CAMERA_LIMITS[field].max}
+            step={CAMERA_LIMITS[field].step}
+            value={rig[field]}
+            disabled={disabled}
+            onChange={(e) => onChange(clampRig({ ...rig, [field]: Number(e.target.value) }))}
+            className="w-full accent-indigo-600"
+          />
+        </label>
+      ))}
+    </div>
+  </div>
+);
+
+export default CameraRigPanel;
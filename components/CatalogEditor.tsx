@@ -0,0 +1,202 @@
+import React, { useRef, useState } from 'react';
+import { CatalogEntry, CatalogKind } from '../types';
+import { CATALOG_KINDS, MAX_CATALOG_PROMPT, catalogEntries, catalogLabel, createCatalogEntry, validateCatalogEntry } from '../services/catalog';
+import { SPACE_TYPES } from '../services/parameters';
+import { DEFAULT_CAMERA_RIG, rigSummary } from '../services/camera';
+import Button from './Button';
+import CameraRigPanel from './CameraRigPanel';
+import { t } from '../services/i18n';
+
+interface CatalogEditorProps {
+  catalog: CatalogEntry[];
+  onSave: (entry: CatalogEntry) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-50 border-none rounded-2xl px-4 py-3 text-sm font-black focus:ring-2 focus:ring-indigo-600';
+
+const CatalogEditor: React.FC<CatalogEditorProps> = ({ catalog, onSave, onDelete, onClose }) => {
+  const [kind, setKind] = useState<CatalogKind>('roomType');
+  const [draft, setDraft] = useState<CatalogEntry>(() => createCatalogEntry('roomType'));
+  const [showErrors, setShowErrors] = useState(false);
+  const thumbnailRef = useRef<HTMLInputElement>(null);
+
+  const entries = catalogEntries(catalog, kind);
+  const isNew = !catalog.some(e => e.id === draft.id);
+  const errors = validateCatalogEntry(draft, catalog);
+
+  const openEntry = (entry: CatalogEntry) => {
+    setDraft(entry);
+    setShowErrors(false);
+  };
+
+  const switchKind = (next: CatalogKind) => {
+    setKind(next);
+    openEntry(createCatalogEntry(next));
+  };
+
+  const handleThumbnail = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setDraft(prev => ({ ...prev, thumbnailUrl: URL.createObjectURL(file) }));
+  };
+
+  const handleSave = () => {
+    if (Object.keys(errors).length > 0) return setShowErrors(true);
+    const saved = { ...draft, label: draft.label.trim(), prompt: draft.prompt.trim() };
+    onSave(saved);
+    setDraft(saved);
+    setShowErrors(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 backdrop-blur-xl bg-black/40 animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-4xl rounded-[40px] shadow-2xl overflow-hidden animate-in slide-in-from-bottom-8 duration-500">
+        <div className="p-8 border-b border-gray-100 flex items-center justify-between">
+          <div className="flex items-center space-x-6">
+            <h3 className="text-xl font-black text-gray-900">{t('catalog.title')}</h3>
+            <div className="bg-gray-100 p-1 rounded-xl flex">
+              {CATALOG_KINDS.map(k => (
+                <button
+                  key={k}
+                  onClick={() => switchKind(k)}
+                  className={`px-4 py-1.5 text-[10px] font-black uppercase rounded-lg transition-all ${kind === k ? 'bg-white shadow text-indigo-600' : 'text-gray-500'}`}
+                >
+                  {t(`catalog.kind.${k}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors text-gray-400">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-5 max-h-[75vh]">
+          <div className="col-span-2 border-r border-gray-100 p-6 space-y-2 overflow-y-auto">
+            <button
+              onClick={() => openEntry(createCatalogEntry(kind))}
+              className={`w-full text-left px-4 py-3 rounded-2xl text-xs font-black transition-all ${isNew ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-50'}`}
+            >
+              + {t('catalog.new')}
+            </button>
+            {entries.map(entry => (
+              <button
+                key={entry.id}
+                onClick={() => openEntry(entry)}
+                className={`w-full flex items-center space-x-3 text-left px-4 py-3 rounded-2xl text-xs font-black transition-all ${entry.id === draft.id ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-50'}`}
+              >
+                {entry.thumbnailUrl
+                  ? <img src={entry.thumbnailUrl} className="w-8 h-8 rounded-lg object-cover flex-shrink-0" />
+                  : <div className="w-8 h-8 rounded-lg bg-gray-100 flex-shrink-0"></div>}
+                <span className="min-w-0">
+                  <span className="block truncate">{catalogLabel(catalog, kind, entry.id)}</span>
+                  <span className="text-[9px] font-bold text-gray-400 uppercase">
+                    {entry.builtIn ? t('catalog.builtIn') : t('catalog.custom')}{entry.spaceType ? ` · ${t(`spaceType.${entry.spaceType}`)}` : ''}{entry.camera ? ` · ${rigSummary(entry.camera)}` : ''}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <div className="col-span-3 p-8 space-y-6 overflow-y-auto">
+            {draft.builtIn && <p className="text-[10px] font-bold text-gray-400">{t('catalog.builtInReadOnly')}</p>}
+
+            <div className="flex items-start space-x-4">
+              <button
+                onClick={() => thumbnailRef.current?.click()}
+                disabled={draft.builtIn}
+                className="w-20 h-20 rounded-2xl bg-gray-50 border-2 border-dashed border-gray-200 flex-shrink-0 overflow-hidden flex items-center justify-center text-[9px] font-black uppercase text-gray-400 hover:border-indigo-200 disabled:hover:border-gray-200"
+                title={t('catalog.thumbnail')}
+              >
+                {draft.thumbnailUrl ? <img src={draft.thumbnailUrl} className="w-full h-full object-cover" /> : t('catalog.addThumbnail')}
+              </button>
+              <input ref={thumbnailRef} type="file" accept="image/*" className="hidden" onChange={handleThumbnail} />
+              <div className="flex-grow space-y-2">
+                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{t('catalog.label')}</label>
+                <input
+                  className={`${inputClass} disabled:text-gray-400`}
+                  value={draft.builtIn ? catalogLabel(catalog, kind, draft.id) : draft.label}
+                  placeholder={t('catalog.labelPlaceholder')}
+                  disabled={draft.builtIn}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                />
+                {showErrors && errors.label && <p className="text-[10px] font-bold text-red-500">{errors.label}</p>}
+              </div>
+            </div>
+
+            {kind === 'roomType' && (
+              <div className="space-y-2">
+                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{t('catalog.space')}</label>
+                <select
+                  className={`${inputClass} disabled:text-gray-400`}
+                  value={draft.spaceType ?? 'Interior'}
+                  disabled={draft.builtIn}
+                  onChange={(e) => setDraft({ ...draft, spaceType: e.target.value as CatalogEntry['spaceType'] })}
+                >
+                  {SPACE_TYPES.map(s => <option key={s} value={s}>{t(`spaceType.${s}`)}</option>)}
+                </select>
+              </div>
+            )}
+
+            {kind === 'cameraAngle' && (
+              <div className="space-y-4">
+                <label className="flex items-center justify-between cursor-pointer">
+                  <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{t('camera.parametric')}</span>
+                  <input
+                    type="checkbox"
+                    className="w-5 h-5 rounded-md text-indigo-600 focus:ring-indigo-600"
+                    checked={!!draft.camera}
+                    disabled={draft.builtIn}
+                    onChange={(e) => setDraft({ ...draft, camera: e.target.checked ? DEFAULT_CAMERA_RIG : undefined })}
+                  />
+                </label>
+                {draft.camera && <CameraRigPanel rig={draft.camera} disabled={draft.builtIn} onChange={(camera) => setDraft({ ...draft, camera })} />}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{draft.camera ? t('camera.promptOptional') : t('catalog.prompt')}</label>
+                <span className="text-[9px] font-bold text-gray-400">{t('catalog.promptHint', { count: draft.prompt.length, max: MAX_CATALOG_PROMPT })}</span>
+              </div>
+              <textarea
+                className="w-full bg-gray-50 border-none rounded-2xl p-5 text-xs font-mono focus:ring-2 focus:ring-indigo-600 transition-all min-h-[140px] resize-none disabled:text-gray-400"
+                value={draft.prompt}
+                placeholder={t('catalog.promptPlaceholder')}
+                disabled={draft.builtIn}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+              />
+              {showErrors && errors.prompt && <p className="text-[10px] font-bold text-red-500">{errors.prompt}</p>}
+            </div>
+
+            {!draft.builtIn && (
+              <div className="flex items-center space-x-3">
+                {!isNew && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="rounded-xl font-black text-red-500"
+                    onClick={() => {
+                      onDelete(draft.id);
+                      openEntry(createCatalogEntry(kind));
+                    }}
+                  >
+                    {t('common.delete')}
+                  </Button>
+                )}
+                <div className="flex-grow"></div>
+                <Button variant="primary" size="md" className="rounded-2xl font-black" onClick={handleSave}>
+                  {isNew ? t('catalog.add') : t('common.save')}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogEditor;
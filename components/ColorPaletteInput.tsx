@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { MAX_PALETTE_SWATCHES, isHexColor } from '../services/parameters';
+import { t } from '../services/i18n';
+
+interface ColorPaletteInputProps {
+  value: string[];
+  onChange: (palette: string[]) => void;
+}
+
+const ColorPaletteInput: React.FC<ColorPaletteInputProps> = ({ value, onChange }) => {
+  const [draft, setDraft] = useState('#');
+
+  const normalized = draft.trim().toUpperCase();
+  const canAdd = isHexColor(normalized) && !value.includes(normalized) && value.length < MAX_PALETTE_SWATCHES;
+
+  const addSwatch = (hex: string) => {
+    const color = hex.toUpperCase();
+    if (!isHexColor(color) || value.includes(color) || value.length >= MAX_PALETTE_SWATCHES) return;
+    onChange([...value, color]);
+    setDraft('#');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {value.map(hex => (
+          <button
+            key={hex}
+            title={t('palette.removeSwatch', { hex })}
+            onClick={() => onChange(value.filter(v => v !== hex))}
+            className="w-9 h-9 rounded-xl border border-black/5 shadow-sm hover:scale-110 transition-transform"
+            style={{ backgroundColor: hex }}
+          />
+        ))}
+        {value.length < MAX_PALETTE_SWATCHES && (
+          <label className="w-9 h-9 rounded-xl border-2 border-dashed border-gray-200 flex items-center justify-center cursor-pointer hover:border-indigo-300 relative overflow-hidden" style={isHexColor(normalized) ? { backgroundColor: normalized } : undefined}>
+            <svg className="w-4 h-4 text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 4v16m8-8H4" /></svg>
+            {/* Kéo trong bảng chọn màu bắn onChange liên tục, nên chỉ điền vào ô nhập; bấm Thêm mới lưu */}
+            <input type="color" className="absolute inset-0 opacity-0 cursor-pointer" value={isHexColor(normalized) ? normalized.toLowerCase() : '#000000'} onChange={(e) => setDraft(e.target.value.toUpperCase())} />
+          </label>
+        )}
+      </div>
+      <div className="flex space-x-2">
+        <input
+          className={`flex-grow min-w-0 bg-gray-50 border-none rounded-xl px-3 py-2 text-xs font-mono font-black focus:ring-2 ${normalized.length > 1 && !isHexColor(normalized) ? 'focus:ring-red-400 text-red-500' : 'focus:ring-indigo-600'}`}
+          value={draft}
+          maxLength={7}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && canAdd && addSwatch(normalized)}
+        />
+        <button
+          onClick={() => addSwatch(normalized)}
+          disabled={!canAdd}
+          className="px-3 py-2 text-[10px] font-black uppercase rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-40"
+        >
+          {t('common.add')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ColorPaletteInput;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { EditSession, canUndo, canRedo, depthOf } from '../services/editSession';
+import { t } from '../services/i18n';
+
+interface EditSessionPanelProps {
+  session: EditSession;
+  disabled?: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (id?: string) => void;
+}
+
+// Duyệt cây theo chiều sâu để mỗi nhánh nằm ngay dưới bước cha của nó
+const treeOrder = (session: EditSession, parentId?: string): EditSession['steps'] =>
+  session.steps.filter(s => s.parentId === parentId).flatMap(s => [s, ...treeOrder(session, s.id)]);
+
+const EditSessionPanel: React.FC<EditSessionPanelProps> = ({ session, disabled, onUndo, onRedo, onJump }) => {
+  const numbers = new Map(session.steps.map((s, i) => [s.id, i + 1]));
+  const rowClass = (active: boolean) =>
+    `w-full flex items-center space-x-3 p-2 rounded-2xl border-2 text-left transition-all ${active ? 'border-indigo-600 bg-indigo-50' : 'border-transparent hover:bg-gray-50'}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{t('editSession.title')}</label>
+        <div className="flex space-x-1">
+          <button onClick={onUndo} disabled={disabled || !canUndo(session)} className="px-3 py-1.5 text-[10px] font-black uppercase rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-40">{t('editSession.undo')}</button>
+          <button onClick={onRedo} disabled={disabled || !canRedo(session)} className="px-3 py-1.5 text-[10px] font-black uppercase rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-40">{t('editSession.redo')}</button>
+        </div>
+      </div>
+
+      <div className="space-y-1.5 max-h-[50vh] overflow-y-auto">
+        <button onClick={() => onJump(undefined)} disabled={disabled} className={rowClass(!session.currentId)}>
+          <img src={session.baseUrl} className="w-12 h-12 rounded-xl object-cover bg-gray-100 shrink-0" />
+          <span className="text-[10px] font-black text-gray-900 uppercase">{t('editSession.original')}</span>
+        </button>
+        {treeOrder(session).map(step => (
+          <button
+            key={step.id}
+            onClick={() => onJump(step.id)}
+            disabled={disabled}
+            className={rowClass(step.id === session.currentId)}
+            style={{ marginLeft: `${(depthOf(session, step.id) + 1) * 12}px`, width: `calc(100% - ${(depthOf(session, step.id) + 1) * 12}px)` }}
+          >
+            <img src={step.imageUrl} className="w-12 h-12 rounded-xl object-cover bg-gray-100 shrink-0" />
+            <span className="min-w-0">
+              <span className="block text-[10px] font-black text-gray-900">#{numbers.get(step.id)}{step.masked ? ` · ${t('editSession.masked')}` : ''}</span>
+              <span className="block text-[10px] font-medium text-gray-500 truncate">{step.instruction}</span>
+            </span>
+          </button>
+        ))}
+      </div>
+      {session.steps.length === 0 && (
+        <p className="text-[10px] font-bold text-gray-400">{t('editSession.hint')}</p>
+      )}
+    </div>
+  );
+};
+
+export default EditSessionPanel;
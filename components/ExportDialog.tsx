@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { ExportOptions, ManifestFormat, EXPORT_FORMATS, DEFAULT_EXPORT_OPTIONS } from '../services/exportService';
+import { errorNotice } from '../services/renderErrors';
+import { t } from '../services/i18n';
+import Button from './Button';
+
+interface ExportDialogProps {
+  fileCount: number;
+  onExport: (options: ExportOptions, onProgress: (done: number, total: number) => void) => Promise<void>;
+  onClose: () => void;
+}
+
+const MANIFEST_LABELS: Record<ManifestFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  both: 'JSON + CSV'
+};
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ fileCount, onExport, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setError(null);
+    setProgress({ done: 0, total: fileCount });
+    try {
+      await onExport(options, (done, total) => setProgress({ done, total }));
+      onClose();
+    } catch (err) {
+      setError(errorNotice(err).message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 backdrop-blur-xl bg-black/40 animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-md rounded-[40px] shadow-2xl p-8 space-y-6 animate-in slide-in-from-bottom-8 duration-500">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-black text-gray-900">{t('export.title')}</h3>
+          <button onClick={onClose} disabled={!!progress} className="p-2 hover:bg-gray-100 rounded-full transition-colors text-gray-400">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <p className="text-sm font-medium text-gray-500">{t('export.description', { count: fileCount })}</p>
+
+        <div>
+          <label className="text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider">{t('export.format')}</label>
+          <div className="bg-gray-100 p-1 rounded-2xl flex">
+            {EXPORT_FORMATS.map(format => (
+              <button
+                key={format}
+                onClick={() => setOptions({ ...options, format })}
+                className={`flex-1 py-2 text-[10px] font-black uppercase rounded-xl transition-all ${options.format === format ? 'bg-white shadow text-indigo-600' : 'text-gray-500'}`}
+              >
+                {format}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {options.format !== 'png' && (
+          <div>
+            <label className="text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider">{t('export.quality', { quality: Math.round(options.quality * 100) })}</label>
+            <input
+              type="range"
+              min={50}
+              max={100}
+              value={Math.round(options.quality * 100)}
+              onChange={(e) => setOptions({ ...options, quality: Number(e.target.value) / 100 })}
+              className="w-full accent-indigo-600"
+            />
+          </div>
+        )}
+
+        <div>
+          <label className="text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider">{t('export.manifest')}</label>
+          <div className="bg-gray-100 p-1 rounded-2xl flex">
+            {(Object.keys(MANIFEST_LABELS) as ManifestFormat[]).map(manifest => (
+              <button
+                key={manifest}
+                onClick={() => setOptions({ ...options, manifest })}
+                className={`flex-1 py-2 text-[10px] font-black uppercase rounded-xl transition-all ${options.manifest === manifest ? 'bg-white shadow text-indigo-600' : 'text-gray-500'}`}
+              >
+                {MANIFEST_LABELS[manifest]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && <p className="text-[10px] font-bold text-red-500">{error}</p>}
+
+        <Button variant="primary" className="w-full rounded-2xl py-4 font-black bg-indigo-600" isLoading={!!progress} disabled={fileCount === 0} onClick={handleExport}>
+          {progress ? t('export.packaging', { done: progress.done, total: progress.total }) : t('export.exportZip')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
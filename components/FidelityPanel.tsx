@@ -0,0 +1,88 @@
+import React from 'react';
+import { FidelityReport, FidelitySettings } from '../types';
+import { MAX_FIDELITY_ATTEMPTS } from '../services/fidelity';
+import { t } from '../services/i18n';
+import Button from './Button';
+
+interface FidelityPanelProps {
+  settings: FidelitySettings;
+  lowCount: number;
+  isRendering: boolean;
+  onChange: (settings: FidelitySettings) => void;
+  onRerenderLow: () => void;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Cảnh báo trên lưới ảnh; tooltip cho biết điểm màu và điểm cấu trúc riêng
+export const FidelityBadge: React.FC<{ report: FidelityReport; className?: string }> = ({ report, className = '' }) => (
+  <span
+    title={t('fidelity.badgeHint', { color: percent(report.color), structure: percent(report.structure) })}
+    className={`bg-amber-500 text-white font-black uppercase shadow-lg ${className}`}
+  >
+    {t('fidelity.badge', { score: percent(report.score) })}
+  </span>
+);
+
+const labelClass = 'text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider';
+
+const FidelityPanel: React.FC<FidelityPanelProps> = ({ settings, lowCount, isRendering, onChange, onRerenderLow }) => (
+  <div className="bg-white p-8 rounded-[32px] shadow-sm border border-gray-100 space-y-6">
+    <div className="flex items-center justify-between">
+      <h3 className="text-xs font-black uppercase text-indigo-600 tracking-widest">{t('fidelity.title')}</h3>
+      <input
+        type="checkbox"
+        className="w-5 h-5 rounded-md text-indigo-600 focus:ring-indigo-600"
+        checked={settings.enabled}
+        onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+      />
+    </div>
+    <p className="text-[10px] font-bold text-gray-400 leading-relaxed">
+      {t('fidelity.description')}
+    </p>
+
+    {settings.enabled && (
+      <>
+        <div>
+          <label className={labelClass}>{t('fidelity.warnBelow', { threshold: percent(settings.threshold) })}</label>
+          <input
+            type="range"
+            min={20}
+            max={90}
+            value={Math.round(settings.threshold * 100)}
+            onChange={(e) => onChange({ ...settings, threshold: Number(e.target.value) / 100 })}
+            className="w-full accent-indigo-600"
+          />
+        </div>
+        <label className="flex items-center justify-between cursor-pointer">
+          <span className="text-[10px] font-black text-gray-400 uppercase tracking-wider">{t('fidelity.autoRerender')}</span>
+          <input
+            type="checkbox"
+            className="w-5 h-5 rounded-md text-indigo-600 focus:ring-indigo-600"
+            checked={settings.autoRerender}
+            onChange={(e) => onChange({ ...settings, autoRerender: e.target.checked })}
+          />
+        </label>
+        {settings.autoRerender && (
+          <div>
+            <label className={labelClass}>{t('fidelity.maxAttempts')}</label>
+            <select
+              className="w-full bg-gray-50 border-none rounded-2xl p-4 text-sm font-black shadow-sm focus:ring-2 focus:ring-indigo-600 transition-all appearance-none"
+              value={settings.maxAttempts}
+              onChange={(e) => onChange({ ...settings, maxAttempts: Number(e.target.value) })}
+            >
+              {Array.from({ length: MAX_FIDELITY_ATTEMPTS - 1 }, (_, i) => i + 2).map(n => <option key={n} value={n}>{t('fidelity.attempts', { count: n })}</option>)}
+            </select>
+          </div>
+        )}
+        {lowCount > 0 && (
+          <Button variant="secondary" size="sm" className="w-full rounded-xl font-black border-amber-200 text-amber-600" disabled={isRendering} onClick={onRerenderLow}>
+            {t('fidelity.rerenderLow', { count: lowCount })}
+          </Button>
+        )}
+      </>
+    )}
+  </div>
+);
+
+export default FidelityPanel;
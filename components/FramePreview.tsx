@@ -0,0 +1,42 @@
+import React from 'react';
+
+interface SafeAreaProps {
+  margin: number; // Tỉ lệ mỗi cạnh, 0–0.25
+  className?: string;
+}
+
+/** Dashed outline of the area that stays visible when a channel overlays UI or trims edges. */
+export const SafeArea: React.FC<SafeAreaProps> = ({ margin, className = '' }) => (
+  <div
+    className={`absolute border-2 border-dashed border-white/90 rounded-lg pointer-events-none shadow-[0_0_0_9999px_rgba(0,0,0,0.25)] ${className}`}
+    style={{ inset: `${margin * 100}%` }}
+  ></div>
+);
+
+interface FramePreviewProps {
+  aspectRatio: string; // "W:H"
+  safeMargin: number;
+  imageUrl?: string;
+}
+
+// Khung xem trước: ảnh được cắt theo tỉ lệ của profile, kèm vùng an toàn
+const FramePreview: React.FC<FramePreviewProps> = ({ aspectRatio, safeMargin, imageUrl }) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const valid = w > 0 && h > 0;
+  return (
+    <div className="flex items-center justify-center bg-gray-50 rounded-2xl p-4 h-48">
+      {valid && (
+        <div
+          className="relative max-w-full max-h-full bg-gradient-to-br from-gray-200 to-gray-300 rounded-lg overflow-hidden"
+          style={{ aspectRatio: `${w} / ${h}`, height: w / h < 1.2 ? '100%' : undefined, width: w / h >= 1.2 ? '100%' : undefined }}
+        >
+          {imageUrl && <img src={imageUrl} className="absolute inset-0 w-full h-full object-cover" />}
+          <SafeArea margin={safeMargin} />
+          <span className="absolute bottom-1.5 right-2 text-[9px] font-black text-white drop-shadow">{aspectRatio}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FramePreview;
@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { t } from '../services/i18n';
+
+type MaskTool = 'brush' | 'lasso' | 'erase';
+
+interface MaskCanvasProps {
+  imageUrl: string;
+  disabled?: boolean;
+  // Mặt nạ PNG cùng kích thước ảnh (trắng = vùng được sửa), undefined khi chưa tô gì
+  onChange: (maskUrl: string | undefined) => void;
+}
+
+const MASK_TOOLS: MaskTool[] = ['brush', 'lasso', 'erase'];
+
+const MASK_COLOR = '#4F46E5';
+
+/** Paints an edit region over an image with a brush or lasso; the painted area becomes the mask. */
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ imageUrl, disabled, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [lasso, setLasso] = useState<{ x: number; y: number }[] | null>(null);
+  const [hasMask, setHasMask] = useState(false);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+    onChange(undefined);
+  }, [imageUrl]);
+
+  const toCanvasPoint = (e: React.PointerEvent) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height
+    };
+  };
+
+  // Cỡ cọ tính theo pixel hiển thị, đổi sang pixel của ảnh gốc
+  const brushScale = () => {
+    const canvas = canvasRef.current!;
+    return canvas.width / canvas.getBoundingClientRect().width;
+  };
+
+  const stroke = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const ctx = canvasRef.current!.getContext('2d')!;
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * brushScale();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  };
+
+  const exportMask = (): string | undefined => {
+    const canvas = canvasRef.current!;
+    const ctx = canvas.getContext('2d')!;
+    const painted = ctx.getImageData(0, 0, canvas.width, canvas.height).data.some((value, i) => i % 4 === 3 && value > 0);
+    if (!painted) return undefined;
+
+    const mask = document.createElement('canvas');
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const maskCtx = mask.getContext('2d')!;
+    maskCtx.drawImage(canvas, 0, 0);
+    maskCtx.globalCompositeOperation = 'source-in';
+    maskCtx.fillStyle = '#FFFFFF';
+    maskCtx.fillRect(0, 0, mask.width, mask.height);
+    maskCtx.globalCompositeOperation = 'destination-over';
+    maskCtx.fillStyle = '#000000';
+    maskCtx.fillRect(0, 0, mask.width, mask.height);
+    return mask.toDataURL('image/png');
+  };
+
+  const commit = () => {
+    const maskUrl = exportMask();
+    setHasMask(!!maskUrl);
+    onChange(maskUrl);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    if (tool === 'lasso') {
+      setLasso([point]);
+    } else {
+      lastPoint.current = point;
+      stroke(point, point);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (tool === 'lasso') {
+      if (lasso) setLasso([...lasso, toCanvasPoint(e)]);
+    } else if (lastPoint.current) {
+      const point = toCanvasPoint(e);
+      stroke(lastPoint.current, point);
+      lastPoint.current = point;
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (tool === 'lasso' && lasso) {
+      if (lasso.length > 2) {
+        const ctx = canvasRef.current!.getContext('2d')!;
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.fillStyle = MASK_COLOR;
+        ctx.beginPath();
+        lasso.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+        ctx.closePath();
+        ctx.fill();
+      }
+      setLasso(null);
+      commit();
+    } else if (lastPoint.current) {
+      lastPoint.current = null;
+      commit();
+    }
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current!;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+    onChange(undefined);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="bg-gray-100 p-1 rounded-xl flex">
+          {MASK_TOOLS.map(option => (
+            <button
+              key={option}
+              onClick={() => setTool(option)}
+              disabled={disabled}
+              className={`px-4 py-1.5 text-[10px] font-black uppercase rounded-lg transition-all ${tool === option ? 'bg-white shadow text-indigo-600' : 'text-gray-500'}`}
+            >
+              {t(`maskTool.${option}`)}
+            </button>
+          ))}
+        </div>
+        {tool !== 'lasso' && (
+          <label className="flex items-center space-x-3 text-[10px] font-black text-gray-400 uppercase">
+            <span>{t('mask.size')}</span>
+            <input type="range" min={5} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-28 accent-indigo-600" />
+          </label>
+        )}
+        <button onClick={handleClear} disabled={disabled || !hasMask} className="px-3 py-1.5 text-[10px] font-black uppercase rounded-lg text-gray-400 hover:bg-gray-100 disabled:opacity-40">{t('mask.clear')}</button>
+      </div>
+
+      <div className="flex items-center justify-center bg-gray-50 rounded-3xl border border-gray-100 p-2">
+        <div className="relative inline-block">
+          <img
+            src={imageUrl}
+            className="block max-w-full max-h-[50vh] select-none"
+            draggable={false}
+            onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
+          {size && (
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              className={`absolute inset-0 w-full h-full opacity-50 touch-none ${disabled ? '' : 'cursor-crosshair'}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            />
+          )}
+          {lasso && size && (
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${size.width} ${size.height}`} preserveAspectRatio="none">
+              <polyline points={lasso.map(p => `${p.x},${p.y}`).join(' ')} fill="none" stroke={MASK_COLOR} strokeWidth={3 * (size.width / 600)} strokeDasharray="8 6" />
+            </svg>
+          )}
+        </div>
+      </div>
+      <p className="text-[10px] font-bold text-gray-400">
+        {hasMask ? t('mask.hintMasked') : t('mask.hintEmpty')}
+      </p>
+    </div>
+  );
+};
+
+export default MaskCanvas;
@@ -0,0 +1,79 @@
+import React, { useRef } from 'react';
+import { MoodBoardImage, MoodBoardRole } from '../types';
+import { MOOD_BOARD_ROLES, MAX_MOOD_BOARD_IMAGES, moodBoardPalette } from '../services/moodBoard';
+import { t } from '../services/i18n';
+
+interface MoodBoardPanelProps {
+  images: MoodBoardImage[];
+  onAdd: (files: File[]) => void;
+  onSetRole: (id: string, role: MoodBoardRole) => void;
+  onRemove: (id: string) => void;
+  onApplyPalette: (palette: string[]) => void;
+}
+
+const MoodBoardPanel: React.FC<MoodBoardPanelProps> = ({ images, onAdd, onSetRole, onRemove, onApplyPalette }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const palette = moodBoardPalette(images);
+
+  return (
+    <div className="space-y-3">
+      <label className="text-[10px] font-black text-gray-400 uppercase block tracking-wider">{t('moodBoard.title')}</label>
+      <div className="grid grid-cols-2 gap-2">
+        {images.map(image => (
+          <div key={image.id} className="relative aspect-video rounded-2xl overflow-hidden bg-gray-50 group">
+            <img src={image.url} className="w-full h-full object-cover" />
+            <button
+              onClick={() => onRemove(image.id)}
+              className="absolute top-1.5 right-1.5 w-6 h-6 bg-red-500 hover:bg-red-600 text-white rounded-full flex items-center justify-center shadow-lg opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+            <div className="absolute bottom-1.5 left-1.5 right-1.5 flex items-center justify-between">
+              <select
+                className="bg-white/90 backdrop-blur border-none rounded-lg pl-2 pr-6 py-0.5 text-[9px] font-black uppercase text-gray-600 shadow-sm focus:ring-2 focus:ring-indigo-600"
+                value={image.role}
+                onChange={(e) => onSetRole(image.id, e.target.value as MoodBoardRole)}
+              >
+                {MOOD_BOARD_ROLES.map(role => <option key={role} value={role}>{t(`moodRole.${role}`)}</option>)}
+              </select>
+              <div className="flex -space-x-1">
+                {image.palette?.slice(0, 4).map(hex => <span key={hex} className="w-3 h-3 rounded-full border border-white" style={{ backgroundColor: hex }} />)}
+              </div>
+            </div>
+          </div>
+        ))}
+        {images.length < MAX_MOOD_BOARD_IMAGES && (
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="aspect-video bg-gray-50 rounded-2xl border-2 border-dashed border-gray-200 flex flex-col items-center justify-center hover:bg-indigo-50 hover:border-indigo-200 transition-all"
+          >
+            <svg className="w-6 h-6 text-gray-300 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>
+            <span className="text-[9px] font-black text-gray-400 uppercase tracking-widest">{t('moodBoard.add')}</span>
+          </button>
+        )}
+      </div>
+      <input
+        type="file"
+        multiple
+        ref={inputRef}
+        className="hidden"
+        accept="image/*"
+        onChange={(e) => {
+          if (e.target.files) onAdd(Array.from(e.target.files).slice(0, MAX_MOOD_BOARD_IMAGES - images.length));
+          e.target.value = '';
+        }}
+      />
+
+      {palette.length > 0 && (
+        <div className="flex items-center justify-between bg-gray-50 rounded-2xl px-3 py-2">
+          <div className="flex -space-x-1">
+            {palette.map(hex => <span key={hex} title={hex} className="w-5 h-5 rounded-full border-2 border-white" style={{ backgroundColor: hex }} />)}
+          </div>
+          <button onClick={() => onApplyPalette(palette)} className="px-2 py-1 text-[9px] font-black uppercase rounded-lg text-indigo-600 hover:bg-indigo-100">{t('moodBoard.usePalette')}</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MoodBoardPanel;
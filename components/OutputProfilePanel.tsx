@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { OutputProfile, OutputSettings } from '../types';
+import { OUTPUT_RESOLUTIONS, BACKGROUND_RULES, MAX_SAFE_MARGIN, DEFAULT_OUTPUT, allProfiles, profileFor, validateProfile } from '../services/output';
+import { t } from '../services/i18n';
+import { MessageKey } from '../locales/en';
+import FramePreview from './FramePreview';
+import Button from './Button';
+
+interface OutputProfilePanelProps {
+  output: OutputSettings;
+  kind: 'product' | 'staging';
+  previewUrl?: string;
+  upscaleCount: number;
+  isRendering: boolean;
+  onChange: (output: OutputSettings) => void;
+  onUpscaleFinals: () => void;
+}
+
+const selectClass = 'w-full bg-gray-50 border-none rounded-2xl p-4 text-sm font-black shadow-sm focus:ring-2 focus:ring-indigo-600 transition-all appearance-none';
+const labelClass = 'text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider';
+
+const emptyDraft = (): OutputProfile => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name: '',
+  aspectRatio: '4:5',
+  resolution: '1K',
+  background: 'scene',
+  safeMargin: 0.05
+});
+
+// Tên profile có sẵn lấy từ bảng dịch, profile tự tạo giữ tên người dùng đặt
+export const describeProfile = (profile: OutputProfile) =>
+  `${profile.builtIn ? t(`output.profileName.${profile.id}` as MessageKey) : profile.name} · ${profile.aspectRatio} · ${profile.resolution}`;
+
+const OutputProfilePanel: React.FC<OutputProfilePanelProps> = ({ output, kind, previewUrl, upscaleCount, isRendering, onChange, onUpscaleFinals }) => {
+  const [draft, setDraft] = useState<OutputProfile | null>(null);
+  const profiles = allProfiles(output);
+  const previewed = draft ?? profileFor(output, undefined, kind);
+  const errors = draft ? validateProfile(draft) : {};
+
+  const handleSave = () => {
+    if (!draft || Object.keys(errors).length > 0) return;
+    onChange({ ...output, customProfiles: [...output.customProfiles, { ...draft, name: draft.name.trim(), aspectRatio: draft.aspectRatio.replace(/\s/g, '') }] });
+    setDraft(null);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange({
+      ...output,
+      customProfiles: output.customProfiles.filter(p => p.id !== id),
+      productProfileId: output.productProfileId === id ? DEFAULT_OUTPUT.productProfileId : output.productProfileId,
+      stagingProfileId: output.stagingProfileId === id ? DEFAULT_OUTPUT.stagingProfileId : output.stagingProfileId
+    });
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-[32px] shadow-sm border border-gray-100 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-black uppercase text-indigo-600 tracking-widest">{t('output.title')}</h3>
+        {!draft && (
+          <button onClick={() => setDraft(emptyDraft())} className="px-2 py-1 text-[9px] font-black uppercase rounded-lg text-gray-400 hover:bg-gray-100">{t('output.newProfile')}</button>
+        )}
+      </div>
+
+      <FramePreview aspectRatio={previewed.aspectRatio} safeMargin={previewed.safeMargin} imageUrl={previewUrl} />
+
+      {draft ? (
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass}>{t('output.name')}</label>
+            <input className={selectClass} placeholder={t('output.namePlaceholder')} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            {errors.name && <p className="mt-2 text-[10px] font-bold text-red-500">{errors.name}</p>}
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{t('output.ratio')}</label>
+              <input className={selectClass} value={draft.aspectRatio} onChange={(e) => setDraft({ ...draft, aspectRatio: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('output.resolution')}</label>
+              <select className={selectClass} value={draft.resolution} onChange={(e) => setDraft({ ...draft, resolution: e.target.value as OutputProfile['resolution'] })}>
+                {OUTPUT_RESOLUTIONS.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+            </div>
+          </div>
+          {errors.aspectRatio && <p className="text-[10px] font-bold text-red-500">{errors.aspectRatio}</p>}
+          <div>
+            <label className={labelClass}>{t('output.background')}</label>
+            <select className={selectClass} value={draft.background} onChange={(e) => setDraft({ ...draft, background: e.target.value as OutputProfile['background'] })}>
+              {BACKGROUND_RULES.map(b => <option key={b} value={b}>{t(`background.${b}`)}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{t('output.safeMargin', { margin: Math.round(draft.safeMargin * 100) })}</label>
+            <input
+              type="range"
+              min={0}
+              max={MAX_SAFE_MARGIN * 100}
+              value={Math.round(draft.safeMargin * 100)}
+              onChange={(e) => setDraft({ ...draft, safeMargin: Number(e.target.value) / 100 })}
+              className="w-full accent-indigo-600"
+            />
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="secondary" size="sm" className="flex-1 rounded-xl font-black" onClick={() => setDraft(null)}>{t('common.cancel')}</Button>
+            <Button variant="primary" size="sm" className="flex-1 rounded-xl font-black" disabled={Object.keys(errors).length > 0} onClick={handleSave}>{t('common.save')}</Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {([['productProfileId', 'output.productProfile'], ['stagingProfileId', 'output.stagingProfile']] as const).map(([field, label]) => (
+            <div key={field}>
+              <label className={labelClass}>{t(label)}</label>
+              <select className={selectClass} value={output[field]} onChange={(e) => onChange({ ...output, [field]: e.target.value })}>
+                {profiles.map(p => <option key={p.id} value={p.id}>{describeProfile(p)}</option>)}
+              </select>
+            </div>
+          ))}
+
+          {output.customProfiles.length > 0 && (
+            <div className="space-y-2">
+              {output.customProfiles.map(p => (
+                <div key={p.id} className="flex items-center justify-between bg-gray-50 rounded-2xl px-4 py-3 group">
+                  <span className="text-xs font-black text-gray-900 truncate">{describeProfile(p)}</span>
+                  <button onClick={() => handleDelete(p.id)} className="text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>{t('output.finalSize')}</label>
+            <select className={selectClass} value={output.finalResolution} onChange={(e) => onChange({ ...output, finalResolution: e.target.value as OutputSettings['finalResolution'] })}>
+              {OUTPUT_RESOLUTIONS.map(r => <option key={r} value={r}>{r}</option>)}
+            </select>
+          </div>
+          {upscaleCount > 0 && (
+            <Button variant="secondary" size="sm" className="w-full rounded-xl font-black" disabled={isRendering} onClick={onUpscaleFinals}>
+              {t('output.upscaleFinals', { count: upscaleCount, size: output.finalResolution })}
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OutputProfilePanel;
@@ -0,0 +1,141 @@
+import React from 'react';
+import { RenderParameters, StagingParameters, CatalogEntry, CatalogKind } from '../types';
+import { ParameterErrors, SPACE_TYPES, LIGHTING_DIRECTIONS, LAYOUT_DENSITIES, ARRANGEMENT_STYLES } from '../services/parameters';
+import { catalogEntries, catalogLabel } from '../services/catalog';
+import { rigSummary } from '../services/camera';
+import { t } from '../services/i18n';
+import ColorPaletteInput from './ColorPaletteInput';
+
+interface ParameterPanelProps {
+  params: RenderParameters;
+  // Chỉ có khi đang ở chế độ Staging
+  stagingParams?: StagingParameters;
+  catalog: CatalogEntry[];
+  errors: ParameterErrors;
+  onChange: <K extends keyof StagingParameters>(field: K, value: StagingParameters[K]) => void;
+  onToggleViewpoint: (angle: string) => void;
+}
+
+const selectClass = 'w-full bg-gray-50 border-none rounded-2xl p-4 text-sm font-black shadow-sm focus:ring-2 focus:ring-indigo-600 transition-all appearance-none';
+
+const Field: React.FC<{ label: string; error?: string; children: React.ReactNode }> = ({ label, error, children }) => (
+  <div>
+    <label className="text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider">{label}</label>
+    {children}
+    {error && <p className="mt-2 text-[10px] font-bold text-red-500">{error}</p>}
+  </div>
+);
+
+function Segmented<T extends string>({ options, value, label, onChange }: { options: T[]; value: T; label: (value: T) => string; onChange: (value: T) => void }) {
+  return (
+    <div className="bg-gray-100 p-1 rounded-2xl flex">
+      {options.map(option => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={`flex-1 px-2 py-2 text-[10px] font-black rounded-xl transition-all ${value === option ? 'bg-white shadow text-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
+        >
+          {label(option)}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Giữ lại giá trị đang chọn dù mục đã bị xoá khỏi catalog, để lỗi hiện ra thay vì select tự nhảy
+const CatalogSelect: React.FC<{ catalog: CatalogEntry[]; kind: CatalogKind; value: string; onChange: (value: string) => void }> = ({ catalog, kind, value, onChange }) => {
+  const entries = catalogEntries(catalog, kind);
+  return (
+    <select className={selectClass} value={value} onChange={(e) => onChange(e.target.value)}>
+      {!entries.some(e => e.id === value) && <option value={value}>{value}</option>}
+      {entries.map(e => <option key={e.id} value={e.id}>{catalogLabel(catalog, kind, e.id)}</option>)}
+    </select>
+  );
+};
+
+// Góc đã chọn nhưng không còn trong catalog vẫn hiện để có thể bỏ chọn
+const cameraOptions = (catalog: CatalogEntry[], viewpoints: string[]): Pick<CatalogEntry, 'id' | 'thumbnailUrl' | 'camera'>[] => [
+  ...catalogEntries(catalog, 'cameraAngle'),
+  ...viewpoints.filter(id => !catalog.some(e => e.kind === 'cameraAngle' && e.id === id)).map(id => ({ id }))
+];
+
+const ParameterPanel: React.FC<ParameterPanelProps> = ({ params, stagingParams, catalog, errors, onChange, onToggleViewpoint }) => (
+  <>
+    <Field label={t('params.space')} error={errors.spaceType}>
+      <Segmented options={SPACE_TYPES} value={params.spaceType} label={(v) => t(`spaceType.${v}`)} onChange={(v) => onChange('spaceType', v)} />
+    </Field>
+
+    <Field label={t('params.roomType')} error={errors.roomType}>
+      <CatalogSelect catalog={catalog} kind="roomType" value={params.roomType} onChange={(v) => onChange('roomType', v)} />
+    </Field>
+
+    <Field label={t('params.designStyle')} error={errors.designStyle}>
+      <CatalogSelect catalog={catalog} kind="designStyle" value={params.designStyle} onChange={(v) => onChange('designStyle', v)} />
+    </Field>
+
+    <Field label={t('params.lightingEnv')} error={errors.lightingEnv}>
+      <CatalogSelect catalog={catalog} kind="lightingEnv" value={params.lightingEnv} onChange={(v) => onChange('lightingEnv', v)} />
+    </Field>
+
+    <Field label={t('params.lightingDirection')} error={errors.lightingDirection}>
+      <Segmented options={LIGHTING_DIRECTIONS} value={params.lightingDirection} label={(v) => t(`lightingDirection.${v}`)} onChange={(v) => onChange('lightingDirection', v)} />
+    </Field>
+
+    <Field label={t('params.colorPalette')} error={errors.colorPalette}>
+      <ColorPaletteInput value={params.colorPalette} onChange={(palette) => onChange('colorPalette', palette)} />
+    </Field>
+
+    <Field label={t('params.mood')} error={errors.mood}>
+      <input
+        className="w-full bg-gray-50 border-none rounded-2xl p-4 text-sm font-black shadow-sm focus:ring-2 focus:ring-indigo-600 transition-all"
+        value={params.mood}
+        maxLength={160}
+        onChange={(e) => onChange('mood', e.target.value)}
+      />
+    </Field>
+
+    <label className="flex items-center justify-between cursor-pointer">
+      <span className="text-[10px] font-black text-gray-400 uppercase tracking-wider">{t('params.allowExtraProps')}</span>
+      <input
+        type="checkbox"
+        className="w-5 h-5 rounded-md text-indigo-600 focus:ring-indigo-600"
+        checked={params.allowExternalItems}
+        onChange={(e) => onChange('allowExternalItems', e.target.checked)}
+      />
+    </label>
+
+    {stagingParams && (
+      <div className="pt-8 border-t border-gray-100 space-y-6">
+        <Field label={t('params.layoutDensity')} error={errors.layoutDensity}>
+          <Segmented options={LAYOUT_DENSITIES} value={stagingParams.layoutDensity} label={(v) => t(`layoutDensity.${v}`)} onChange={(v) => onChange('layoutDensity', v)} />
+        </Field>
+
+        <Field label={t('params.arrangement')} error={errors.arrangementStyle}>
+          <Segmented options={ARRANGEMENT_STYLES} value={stagingParams.arrangementStyle} label={(v) => t(`arrangement.${v}`)} onChange={(v) => onChange('arrangementStyle', v)} />
+        </Field>
+
+        <Field label={t('params.cameraPositions')} error={errors.viewpoints}>
+          <div className="grid grid-cols-1 gap-3">
+            {cameraOptions(catalog, stagingParams.viewpoints).map(angle => (
+              <button
+                key={angle.id}
+                onClick={() => onToggleViewpoint(angle.id)}
+                className={`flex items-center px-4 py-3.5 rounded-2xl text-[10px] font-black transition-all border-2 ${
+                  stagingParams.viewpoints.includes(angle.id)
+                    ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg'
+                    : 'bg-white border-gray-50 text-gray-500 hover:border-indigo-100'
+                }`}
+              >
+                {angle.thumbnailUrl && <img src={angle.thumbnailUrl} className="w-6 h-6 rounded-lg object-cover mr-3" />}
+                {catalogLabel(catalog, 'cameraAngle', angle.id)}
+                {angle.camera && <span className="ml-auto font-mono opacity-60">{rigSummary(angle.camera)}</span>}
+              </button>
+            ))}
+          </div>
+        </Field>
+      </div>
+    )}
+  </>
+);
+
+export default ParameterPanel;
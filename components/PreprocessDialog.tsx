@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PreprocessOptions, ProductImage } from '../types';
+import { DEFAULT_PREPROCESS, preprocessImage } from '../services/preprocess';
+import { t } from '../services/i18n';
+import Button from './Button';
+
+interface PreprocessDialogProps {
+  image: ProductImage;
+  isApplyingAll: boolean;
+  onApply: (options: PreprocessOptions, url: string) => void;
+  onApplyAll: (options: PreprocessOptions) => void;
+  onClose: () => void;
+}
+
+const OPTIONS: (keyof PreprocessOptions)[] = ['autoCrop', 'removeBackground', 'whiteBalance'];
+
+// Nền ô caro để thấy rõ vùng đã tách nền
+const CHECKERBOARD = {
+  backgroundImage: 'linear-gradient(45deg, #f3f4f6 25%, transparent 25%), linear-gradient(-45deg, #f3f4f6 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #f3f4f6 75%), linear-gradient(-45deg, transparent 75%, #f3f4f6 75%)',
+  backgroundSize: '20px 20px',
+  backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0'
+};
+
+const PreprocessDialog: React.FC<PreprocessDialogProps> = ({ image, isApplyingAll, onApply, onApplyAll, onClose }) => {
+  const sourceUrl = image.sourceUrl ?? image.originalUrl;
+  const [options, setOptions] = useState<PreprocessOptions>(image.preprocess ?? DEFAULT_PREPROCESS);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const appliedUrlRef = useRef<string | null>(null);
+
+  // Xem trước lại mỗi khi đổi tuỳ chọn; bản xem trước cũ được giải phóng, trừ bản vừa được áp dụng
+  useEffect(() => {
+    let stale = false;
+    let preview: string | null = null;
+    setPreviewUrl(null);
+    setError(null);
+    preprocessImage(sourceUrl, options)
+      .then(url => {
+        if (stale) return URL.revokeObjectURL(url);
+        preview = url;
+        setPreviewUrl(url);
+      })
+      .catch(() => !stale && setError(t('preprocess.failed')));
+    return () => {
+      stale = true;
+      if (preview && preview !== appliedUrlRef.current) URL.revokeObjectURL(preview);
+    };
+  }, [sourceUrl, options]);
+
+  const handleApply = () => {
+    if (!previewUrl) return;
+    appliedUrlRef.current = previewUrl;
+    onApply(options, previewUrl);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 backdrop-blur-xl bg-black/40 animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-5xl rounded-[40px] shadow-2xl overflow-hidden animate-in slide-in-from-bottom-8 duration-500">
+        <div className="p-8 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-xl font-black text-gray-900">{t('preprocess.title')}</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors text-gray-400">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-8 space-y-8 max-h-[80vh] overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            {([['before', sourceUrl], ['after', previewUrl]] as const).map(([side, url]) => (
+              <div key={side} className="relative aspect-square rounded-3xl overflow-hidden border border-gray-100" style={CHECKERBOARD}>
+                {url ? (
+                  <img src={url} className="absolute inset-0 w-full h-full object-contain p-4" />
+                ) : (
+                  <div className="absolute inset-0 flex items-center justify-center">
+                    {error ? (
+                      <span className="text-xs font-bold text-red-500">{error}</span>
+                    ) : (
+                      <div className="w-10 h-10 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
+                    )}
+                  </div>
+                )}
+                <span className={`absolute top-4 left-4 px-3 py-1.5 rounded-xl text-[10px] font-black uppercase text-white ${side === 'after' ? 'bg-indigo-600' : 'bg-black/50'}`}>{t(`preprocess.${side}`)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            {OPTIONS.map(key => (
+              <label key={key} className={`p-4 rounded-2xl border-2 cursor-pointer transition-all ${options[key] ? 'border-indigo-600 bg-indigo-50' : 'border-gray-100 hover:border-indigo-100'}`}>
+                <span className="flex items-center justify-between">
+                  <span className="text-[10px] font-black text-gray-900 uppercase tracking-wider">{t(`preprocess.${key}`)}</span>
+                  <input
+                    type="checkbox"
+                    className="w-5 h-5 rounded-md text-indigo-600 focus:ring-indigo-600"
+                    checked={options[key]}
+                    onChange={(e) => setOptions({ ...options, [key]: e.target.checked })}
+                  />
+                </span>
+                <span className="block mt-2 text-[10px] font-bold text-gray-400 leading-relaxed">{t(`preprocess.${key}Hint`)}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-[10px] font-bold text-gray-400">{t('preprocess.alwaysApplied')}</p>
+
+          <div className="flex space-x-4">
+            <Button variant="secondary" size="lg" className="flex-1 rounded-2xl font-black" onClick={onClose}>{t('common.cancel')}</Button>
+            <Button variant="outline" size="lg" className="flex-1 rounded-2xl font-black" isLoading={isApplyingAll} onClick={() => onApplyAll(options)}>{t('preprocess.applyAll')}</Button>
+            <Button variant="primary" size="lg" className="flex-1 rounded-2xl font-black shadow-xl shadow-indigo-100" disabled={!previewUrl || isApplyingAll} onClick={handleApply}>{t('common.apply')}</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreprocessDialog;
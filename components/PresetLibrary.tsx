@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import { StylePreset, CatalogEntry } from '../types';
+import { t } from '../services/i18n';
+import { catalogLabel } from '../services/catalog';
+import Button from './Button';
+
+interface PresetLibraryProps {
+  presets: StylePreset[];
+  catalog: CatalogEntry[];
+  onApply: (preset: StylePreset) => void;
+  onSaveCurrent: (name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const PresetLibrary: React.FC<PresetLibraryProps> = ({ presets, catalog, onApply, onSaveCurrent, onDelete, onExport, onImport }) => {
+  const [name, setName] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSaveCurrent(name.trim());
+    setName('');
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-[32px] shadow-sm border border-gray-100 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-black uppercase text-indigo-600 tracking-widest">{t('preset.title')}</h3>
+        <div className="flex space-x-1">
+          <button onClick={() => importRef.current?.click()} className="px-2 py-1 text-[9px] font-black uppercase rounded-lg text-gray-400 hover:bg-gray-100">{t('common.import')}</button>
+          <button onClick={onExport} disabled={presets.length === 0} className="px-2 py-1 text-[9px] font-black uppercase rounded-lg text-gray-400 hover:bg-gray-100 disabled:opacity-40">{t('common.export')}</button>
+          <input
+            type="file"
+            ref={importRef}
+            className="hidden"
+            accept="application/json,.json"
+            onChange={(e) => {
+              if (e.target.files?.[0]) onImport(e.target.files[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="space-y-2">
+          {presets.map(preset => (
+            <div key={preset.id} className="flex items-center space-x-3 bg-gray-50 rounded-2xl p-3 group">
+              {preset.moodBoard?.length ? (
+                <img src={preset.moodBoard[0].url} className="w-10 h-10 rounded-xl object-cover" />
+              ) : (
+                <div className="w-10 h-10 rounded-xl bg-indigo-100"></div>
+              )}
+              <div className="flex-grow min-w-0">
+                <span className="block text-xs font-black text-gray-900 truncate">{preset.name}</span>
+                <span className="block text-[9px] font-bold text-gray-400 uppercase truncate">
+                  {catalogLabel(catalog, 'designStyle', preset.stagingParameters.designStyle)} · {catalogLabel(catalog, 'roomType', preset.stagingParameters.roomType)}
+                </span>
+              </div>
+              <button onClick={() => onApply(preset)} className="px-2 py-1 text-[9px] font-black uppercase rounded-lg bg-indigo-600 text-white hover:bg-indigo-700">{t('common.apply')}</button>
+              <button onClick={() => onDelete(preset.id)} className="text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity">
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <input
+          className="flex-grow min-w-0 bg-gray-50 border-none rounded-2xl px-4 py-3 text-xs font-black focus:ring-2 focus:ring-indigo-600"
+          placeholder={t('preset.namePlaceholder')}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+        />
+        <Button variant="secondary" size="sm" className="rounded-xl font-black" onClick={handleSave} disabled={!name.trim()}>{t('common.save')}</Button>
+      </div>
+    </div>
+  );
+};
+
+export default PresetLibrary;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Product, ProductImage } from '../types';
+import { t } from '../services/i18n';
+
+interface ProductGroupsProps {
+  products: Product[];
+  images: ProductImage[];
+  onUpdate: (id: string, field: 'sku' | 'name', value: string) => void;
+  onUngroup: (id: string) => void;
+}
+
+const ProductGroups: React.FC<ProductGroupsProps> = ({ products, images, onUpdate, onUngroup }) => {
+  if (products.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+      {products.map(product => {
+        const views = images.filter(img => img.productId === product.id);
+        return (
+          <div key={product.id} className="bg-white rounded-3xl border border-gray-100 p-5 flex items-center space-x-4">
+            <div className="flex -space-x-3 shrink-0">
+              {views.slice(0, 4).map(v => (
+                <div key={v.id} className="relative">
+                  <img src={v.originalUrl} className="w-12 h-12 rounded-xl border-2 border-white bg-gray-50 object-contain shadow-sm" />
+                  <span className="absolute -bottom-1 left-1/2 -translate-x-1/2 px-1.5 bg-gray-900 text-white rounded text-[8px] font-black uppercase">{t(`viewType.${v.viewType}`)}</span>
+                </div>
+              ))}
+            </div>
+            <div className="flex-grow min-w-0 space-y-1">
+              <input
+                className="w-full bg-transparent border-none rounded-lg px-2 py-1 text-xs font-black text-indigo-600 uppercase focus:bg-gray-50 focus:ring-2 focus:ring-indigo-600"
+                value={product.sku}
+                onChange={(e) => onUpdate(product.id, 'sku', e.target.value)}
+              />
+              <input
+                className="w-full bg-transparent border-none rounded-lg px-2 py-1 text-xs font-bold text-gray-500 focus:bg-gray-50 focus:ring-2 focus:ring-indigo-600"
+                placeholder={t('groups.productName')}
+                value={product.name}
+                onChange={(e) => onUpdate(product.id, 'name', e.target.value)}
+              />
+            </div>
+            <button onClick={() => onUngroup(product.id)} className="px-3 py-1.5 text-[10px] font-black uppercase rounded-lg text-gray-400 hover:bg-gray-100 shrink-0">{t('groups.ungroup')}</button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ProductGroups;
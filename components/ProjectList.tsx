@@ -0,0 +1,61 @@
+import React from 'react';
+import { Collection } from '../types';
+import { formatDateTime, t } from '../services/i18n';
+
+interface ProjectListProps {
+  collections: Collection[];
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onExport: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProjectList: React.FC<ProjectListProps> = ({ collections, onOpen, onDuplicate, onExport, onDelete }) => {
+  if (collections.length === 0) return null;
+
+  return (
+    <section className="mt-16">
+      <h3 className="text-xs font-black uppercase text-indigo-600 tracking-widest mb-6">{t('projects.title')}</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
+        {collections.map(project => {
+          const cover = project.images.find(img => img.renderedUrl) ?? project.images[0];
+          return (
+            <div key={project.id} className="bg-white rounded-[32px] border border-gray-100 shadow-sm hover:shadow-xl transition-all overflow-hidden group">
+              <button onClick={() => onOpen(project.id)} className="block w-full aspect-video bg-gray-50">
+                {cover ? (
+                  <img src={cover.renderedUrl || cover.originalUrl} className="w-full h-full object-contain p-4" />
+                ) : (
+                  <span className="text-[10px] font-black text-gray-300 uppercase">{t('projects.empty')}</span>
+                )}
+              </button>
+              <div className="p-6 space-y-4">
+                <div>
+                  <h4 className="text-sm font-black text-gray-900 truncate">{project.name}</h4>
+                  {project.metadata.client && (
+                    <span className="text-[10px] font-black text-indigo-600 uppercase tracking-wider">{project.metadata.client}</span>
+                  )}
+                </div>
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                  {t('projects.summary', { count: project.images.length, updated: formatDateTime(project.metadata.updatedAt) })}
+                </p>
+                <div className="flex space-x-2">
+                  <button onClick={() => onOpen(project.id)} className="px-3 py-1.5 text-[10px] font-black uppercase rounded-lg bg-indigo-600 text-white hover:bg-indigo-700">{t('projects.open')}</button>
+                  <button onClick={() => onDuplicate(project.id)} className="px-3 py-1.5 text-[10px] font-black uppercase rounded-lg text-gray-500 hover:bg-gray-100">{t('projects.duplicate')}</button>
+                  <button onClick={() => onExport(project.id)} className="px-3 py-1.5 text-[10px] font-black uppercase rounded-lg text-gray-500 hover:bg-gray-100">{t('common.export')}</button>
+                  <button
+                    onClick={() => { if (window.confirm(t('projects.confirmDelete', { name: project.name }))) onDelete(project.id); }}
+                    className="px-3 py-1.5 text-[10px] font-black uppercase rounded-lg text-red-500 hover:bg-red-50"
+                  >
+                    {t('common.delete')}
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default ProjectList;
@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { PromptKind, PromptTemplate } from '../types';
+import { PromptVariables, latestBody, resolveTemplate, templateName } from '../services/promptBuilder';
+import Button from './Button';
+import { formatDateTime, t } from '../services/i18n';
+
+interface TemplateEditorProps {
+  templates: PromptTemplate[];
+  initialKind: PromptKind;
+  selectedIds: Record<PromptKind, string>;
+  previewVariables: Record<PromptKind, PromptVariables>;
+  onSave: (template: PromptTemplate) => void;
+  onDelete: (id: string) => void;
+  onSelect: (kind: PromptKind, id: string) => void;
+  onClose: () => void;
+}
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({
+  templates,
+  initialKind,
+  selectedIds,
+  previewVariables,
+  onSave,
+  onDelete,
+  onSelect,
+  onClose
+}) => {
+  const [kind, setKind] = useState<PromptKind>(initialKind);
+  const [activeId, setActiveId] = useState(selectedIds[initialKind]);
+  const active = templates.find(tpl => tpl.id === activeId) ?? templates.find(tpl => tpl.kind === kind)!;
+  const [draftBody, setDraftBody] = useState(latestBody(active));
+  const [draftName, setDraftName] = useState(templateName(active));
+
+  const variables = previewVariables[kind];
+  const preview = useMemo(() => resolveTemplate(draftBody, variables), [draftBody, variables]);
+  const currentVersion = active.versions[active.versions.length - 1];
+  const isDirty = draftBody !== currentVersion.body || draftName !== templateName(active);
+
+  const openTemplate = (template: PromptTemplate) => {
+    setActiveId(template.id);
+    setDraftBody(latestBody(template));
+    setDraftName(templateName(template));
+  };
+
+  const switchKind = (next: PromptKind) => {
+    setKind(next);
+    openTemplate(templates.find(tpl => tpl.id === selectedIds[next]) ?? templates.find(tpl => tpl.kind === next)!);
+  };
+
+  const saveAsNew = (name: string) => {
+    const created: PromptTemplate = {
+      id: Math.random().toString(36).substr(2, 9),
+      name,
+      kind,
+      versions: [{ version: 1, body: draftBody, savedAt: Date.now() }]
+    };
+    onSave(created);
+    setActiveId(created.id);
+    setDraftName(name);
+  };
+
+  const saveVersion = () => {
+    // Template mặc định không sửa trực tiếp, lưu thành bản tùy chỉnh
+    if (active.builtIn) return saveAsNew(t('template.customName', { name: draftName }));
+    onSave({
+      ...active,
+      name: draftName.trim() || active.name,
+      versions: draftBody === currentVersion.body
+        ? active.versions
+        : [...active.versions, { version: currentVersion.version + 1, body: draftBody, savedAt: Date.now() }]
+    });
+  };
+
+  const insertVariable = (name: string) => setDraftBody(prev => `${prev}{{${name}}}`);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 backdrop-blur-xl bg-black/40 animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-5xl rounded-[40px] shadow-2xl overflow-hidden animate-in slide-in-from-bottom-8 duration-500">
+        <div className="p-8 border-b border-gray-100 flex items-center justify-between">
+          <div className="flex items-center space-x-6">
+            <h3 className="text-xl font-black text-gray-900">{t('template.title')}</h3>
+            <div className="bg-gray-100 p-1 rounded-xl flex">
+              {(['product', 'staging'] as PromptKind[]).map(k => (
+                <button
+                  key={k}
+                  onClick={() => switchKind(k)}
+                  className={`px-4 py-1.5 text-[10px] font-black uppercase rounded-lg transition-all ${kind === k ? 'bg-white shadow text-indigo-600' : 'text-gray-500'}`}
+                >
+                  {t(`mode.${k}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors text-gray-400">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-4 max-h-[75vh]">
+          <div className="col-span-1 border-r border-gray-100 p-6 space-y-2 overflow-y-auto">
+            {templates.filter(tpl => tpl.kind === kind).map(tpl => (
+              <button
+                key={tpl.id}
+                onClick={() => openTemplate(tpl)}
+                className={`w-full text-left px-4 py-3 rounded-2xl text-xs font-black transition-all ${tpl.id === active.id ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-50'}`}
+              >
+                <span className="block truncate">{templateName(tpl)}</span>
+                <span className="text-[9px] font-bold text-gray-400 uppercase">
+                  v{tpl.versions[tpl.versions.length - 1].version}{tpl.builtIn ? ` · ${t('template.builtIn')}` : ''}{tpl.id === selectedIds[kind] ? ` · ${t('template.inUse')}` : ''}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <div className="col-span-3 p-8 space-y-6 overflow-y-auto">
+            <div className="flex items-center space-x-3">
+              <input
+                className="flex-grow bg-gray-50 border-none rounded-2xl px-4 py-3 text-sm font-black focus:ring-2 focus:ring-indigo-600 disabled:text-gray-400"
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                disabled={active.builtIn}
+              />
+              <select
+                className="bg-gray-50 border-none rounded-2xl px-4 py-3 text-xs font-black text-gray-500 focus:ring-2 focus:ring-indigo-600"
+                value=""
+                onChange={(e) => {
+                  const version = active.versions.find(v => v.version === Number(e.target.value));
+                  if (version) setDraftBody(version.body);
+                }}
+              >
+                <option value="">{t('template.history', { count: active.versions.length })}</option>
+                {[...active.versions].reverse().map(v => (
+                  <option key={v.version} value={v.version}>
+                    v{v.version}{v.savedAt ? ` · ${formatDateTime(v.savedAt)}` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{t('template.body')}</label>
+                <textarea
+                  className="w-full bg-gray-50 border-none rounded-2xl p-5 text-xs font-mono focus:ring-2 focus:ring-indigo-600 transition-all min-h-[320px] resize-none"
+                  value={draftBody}
+                  onChange={(e) => setDraftBody(e.target.value)}
+                />
+                <div className="flex flex-wrap gap-1.5">
+                  {Object.keys(variables).map(name => (
+                    <button key={name} onClick={() => insertVariable(name)} className="px-2 py-1 rounded-lg bg-gray-100 hover:bg-indigo-50 hover:text-indigo-600 text-[9px] font-mono text-gray-500">
+                      {`{{${name}}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-3">
+                <label className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{t('template.preview')}</label>
+                <pre className="w-full bg-indigo-50/50 rounded-2xl p-5 text-xs text-gray-700 whitespace-pre-wrap min-h-[320px]">{preview}</pre>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-3">
+              {!active.builtIn && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="rounded-xl font-black text-red-500"
+                  onClick={() => {
+                    onDelete(active.id);
+                    openTemplate(templates.find(tpl => tpl.kind === kind && tpl.builtIn)!);
+                  }}
+                >
+                  {t('common.delete')}
+                </Button>
+              )}
+              <div className="flex-grow"></div>
+              <Button variant="secondary" size="md" className="rounded-2xl font-black" onClick={() => saveAsNew(t('template.copyName', { name: draftName }))}>{t('template.saveAsNew')}</Button>
+              <Button variant="secondary" size="md" className="rounded-2xl font-black" onClick={saveVersion} disabled={!isDirty}>{t('template.saveVersion')}</Button>
+              <Button variant="primary" size="md" className="rounded-2xl font-black" onClick={() => onSelect(kind, active.id)} disabled={active.id === selectedIds[kind]}>
+                {t('template.useForProject')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,140 @@
+import React from 'react';
+import { Collection } from '../types';
+import { UsageSummary, estimateCost, formatCost, summarizeUsage, usageByClient } from '../services/usage';
+import { formatTime, t } from '../services/i18n';
+
+interface UsageDashboardProps {
+  collections: Collection[];
+  activeCollection: Collection | null;
+  onOpenProject: (id: string) => void;
+  onClose: () => void;
+}
+
+const RECENT_LIMIT = 20;
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const SummaryCells: React.FC<{ summary: UsageSummary }> = ({ summary }) => (
+  <>
+    <td className="py-2 text-right">{summary.requests}</td>
+    <td className={`py-2 text-right ${summary.failures > 0 ? 'text-red-500' : ''}`}>{summary.failures}</td>
+    <td className="py-2 text-right">{summary.retries}</td>
+    <td className="py-2 text-right">{formatTokens(summary.tokens)}</td>
+    <td className="py-2 text-right text-gray-900">{formatCost(summary.cost)}</td>
+  </>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ collections, activeCollection, onOpenProject, onClose }) => {
+  const clients = usageByClient(collections);
+  const total = summarizeUsage(collections.flatMap(c => c.usage));
+  const recent = activeCollection ? [...activeCollection.usage].reverse().slice(0, RECENT_LIMIT) : [];
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 backdrop-blur-xl bg-black/40 animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-4xl max-h-[90vh] overflow-y-auto rounded-[40px] shadow-2xl p-8 space-y-8 animate-in slide-in-from-bottom-8 duration-500">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-black text-gray-900">{t('usage.title')}</h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors text-gray-400">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-4 gap-3">
+          {[
+            [t('usage.estCost'), formatCost(total.cost)],
+            [t('usage.requests'), String(total.requests)],
+            [t('usage.failed'), String(total.failures)],
+            [t('usage.tokens'), formatTokens(total.tokens)]
+          ].map(([label, value]) => (
+            <div key={label} className="bg-gray-50 rounded-2xl p-4">
+              <span className="text-[9px] font-black text-gray-400 uppercase tracking-wider block">{label}</span>
+              <span className="text-lg font-black text-gray-900">{value}</span>
+            </div>
+          ))}
+        </div>
+        <p className="text-[10px] font-bold text-gray-400 leading-relaxed">
+          {t('usage.estimateNote')}
+        </p>
+
+        <table className="w-full text-[11px] font-bold text-gray-500">
+          <thead>
+            <tr className="text-[9px] font-black text-gray-400 uppercase tracking-wider text-right">
+              <th className="py-2 text-left">{t('usage.clientProject')}</th>
+              <th className="py-2">{t('usage.requests')}</th>
+              <th className="py-2">{t('usage.failed')}</th>
+              <th className="py-2">{t('usage.retries')}</th>
+              <th className="py-2">{t('usage.tokens')}</th>
+              <th className="py-2">{t('usage.cost')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {clients.map(group => (
+              <React.Fragment key={group.client}>
+                <tr className="border-t border-gray-100 font-black text-indigo-600 uppercase">
+                  <td className="py-2">{group.client || t('usage.noClient')}</td>
+                  <SummaryCells summary={group.summary} />
+                </tr>
+                {group.projects.map(({ collection, summary }) => (
+                  <tr key={collection.id}>
+                    <td className="py-2 pl-4">
+                      <button onClick={() => onOpenProject(collection.id)} className="hover:text-indigo-600 text-left">{collection.name}</button>
+                      {collection.budget !== undefined && (
+                        <span className={`ml-2 text-[9px] font-black uppercase ${summary.cost >= collection.budget ? 'text-red-500' : 'text-gray-300'}`}>
+                          {t('usage.cap', { cost: formatCost(collection.budget) })}
+                        </span>
+                      )}
+                    </td>
+                    <SummaryCells summary={summary} />
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+
+        {activeCollection && (
+          <div>
+            <h4 className="text-xs font-black uppercase text-indigo-600 tracking-widest mb-3">{t('usage.recent', { name: activeCollection.name })}</h4>
+            {recent.length === 0 ? (
+              <p className="text-[10px] font-bold text-gray-400">{t('usage.empty')}</p>
+            ) : (
+              <table className="w-full text-[11px] font-bold text-gray-500">
+                <thead>
+                  <tr className="text-[9px] font-black text-gray-400 uppercase tracking-wider text-right">
+                    <th className="py-2 text-left">{t('usage.time')}</th>
+                    <th className="py-2 text-left">{t('usage.operation')}</th>
+                    <th className="py-2 text-left">{t('usage.model')}</th>
+                    <th className="py-2">{t('usage.size')}</th>
+                    <th className="py-2">{t('usage.retries')}</th>
+                    <th className="py-2">{t('usage.tokens')}</th>
+                    <th className="py-2">{t('usage.duration')}</th>
+                    <th className="py-2">{t('usage.cost')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recent.map(entry => (
+                    <tr key={entry.id} className="border-t border-gray-50 text-right">
+                      <td className="py-2 text-left">{formatTime(entry.timestamp)}</td>
+                      <td className="py-2 text-left">
+                        {t(`operation.${entry.operation}`)}
+                        {!entry.success && <span className="ml-2 text-[9px] font-black uppercase text-red-500">{entry.errorKind ?? t('usage.failed')}</span>}
+                      </td>
+                      <td className="py-2 text-left">{entry.model}</td>
+                      <td className="py-2">{entry.imageSize}</td>
+                      <td className="py-2">{entry.retries}</td>
+                      <td className="py-2">{formatTokens(entry.totalTokens)}</td>
+                      <td className="py-2">{(entry.durationMs / 1000).toFixed(1)}s</td>
+                      <td className="py-2 text-gray-900">{formatCost(estimateCost(entry))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
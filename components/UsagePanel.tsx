@@ -0,0 +1,63 @@
+import React from 'react';
+import { UsageEntry } from '../types';
+import { formatCost, summarizeUsage } from '../services/usage';
+import { t } from '../services/i18n';
+
+interface UsagePanelProps {
+  usage: UsageEntry[];
+  budget?: number;
+  onChangeBudget: (budget?: number) => void;
+  onOpenDashboard: () => void;
+}
+
+const labelClass = 'text-[10px] font-black text-gray-400 uppercase mb-3 block tracking-wider';
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ usage, budget, onChangeBudget, onOpenDashboard }) => {
+  const summary = summarizeUsage(usage);
+  const ratio = budget ? Math.min(1, summary.cost / budget) : 0;
+  const isOver = budget !== undefined && summary.cost >= budget;
+
+  return (
+    <div className="bg-white p-8 rounded-[32px] shadow-sm border border-gray-100 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-black uppercase text-indigo-600 tracking-widest">{t('usage.title')}</h3>
+        <button onClick={onOpenDashboard} className="px-2 py-1 text-[9px] font-black uppercase rounded-lg text-indigo-600 hover:bg-indigo-100">{t('usage.dashboard')}</button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="bg-gray-50 rounded-2xl p-4">
+          <span className="text-[9px] font-black text-gray-400 uppercase tracking-wider block">{t('usage.estCost')}</span>
+          <span className={`text-lg font-black ${isOver ? 'text-red-500' : 'text-gray-900'}`}>{formatCost(summary.cost)}</span>
+        </div>
+        <div className="bg-gray-50 rounded-2xl p-4">
+          <span className="text-[9px] font-black text-gray-400 uppercase tracking-wider block">{t('usage.requests')}</span>
+          <span className="text-lg font-black text-gray-900">{summary.requests}</span>
+          {summary.failures > 0 && <span className="text-[9px] font-black text-red-400 uppercase ml-1">{t('usage.failedCount', { count: summary.failures })}</span>}
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>{t('usage.budget')}</label>
+        <input
+          type="number"
+          min={0}
+          step={0.5}
+          placeholder={t('usage.noLimit')}
+          className="w-full bg-gray-50 border-none rounded-2xl p-4 text-sm font-black shadow-sm focus:ring-2 focus:ring-indigo-600 transition-all"
+          value={budget ?? ''}
+          onChange={(e) => onChangeBudget(e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))}
+        />
+        {budget !== undefined && (
+          <div className="mt-3 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div className={`h-full transition-all ${isOver ? 'bg-red-500' : ratio > 0.8 ? 'bg-amber-500' : 'bg-indigo-600'}`} style={{ width: `${ratio * 100}%` }} />
+          </div>
+        )}
+        {isOver && (
+          <p className="mt-3 text-[10px] font-bold text-red-500 leading-relaxed">{t('usage.overBudget')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
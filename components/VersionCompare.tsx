@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { RenderVersion, CatalogEntry } from '../types';
+import Button from './Button';
+import { formatDateTime, t } from '../services/i18n';
+import { catalogLabel } from '../services/catalog';
+
+interface VersionCompareProps {
+  title: string;
+  versions: RenderVersion[];
+  catalog: CatalogEntry[];
+  finalVersionId?: string;
+  onSelectFinal: (versionId: string) => void;
+  onClose: () => void;
+}
+
+const VersionCompare: React.FC<VersionCompareProps> = ({ title, versions, catalog, finalVersionId, onSelectFinal, onClose }) => {
+  const finalIndex = Math.max(versions.findIndex(v => v.id === finalVersionId), 0);
+  const [leftId, setLeftId] = useState(versions[Math.max(finalIndex - 1, 0)]?.id);
+  const [rightId, setRightId] = useState(versions[finalIndex]?.id);
+  const [mode, setMode] = useState<'slider' | 'side'>('slider');
+  const [position, setPosition] = useState(50);
+
+  const left = versions.find(v => v.id === leftId) ?? versions[0];
+  const right = versions.find(v => v.id === rightId) ?? versions[versions.length - 1];
+  const label = (v: RenderVersion) => `v${versions.indexOf(v) + 1}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 backdrop-blur-xl bg-black/40 animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-6xl rounded-[40px] shadow-2xl overflow-hidden animate-in slide-in-from-bottom-8 duration-500">
+        <div className="p-8 border-b border-gray-100 flex items-center justify-between">
+          <div className="flex items-center space-x-6">
+            <h3 className="text-xl font-black text-gray-900">{title}</h3>
+            <div className="bg-gray-100 p-1 rounded-xl flex">
+              {(['slider', 'side'] as const).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-4 py-1.5 text-[10px] font-black uppercase rounded-lg transition-all ${mode === m ? 'bg-white shadow text-indigo-600' : 'text-gray-500'}`}
+                >
+                  {t(`compare.${m}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors text-gray-400">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-8 space-y-6 max-h-[80vh] overflow-y-auto">
+          {mode === 'slider' ? (
+            <div className="space-y-3">
+              <div className="relative aspect-video bg-gray-50 rounded-3xl overflow-hidden border border-gray-100 select-none">
+                <img src={right.url} className="absolute inset-0 w-full h-full object-contain" />
+                <img src={left.url} className="absolute inset-0 w-full h-full object-contain bg-gray-50" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }} />
+                <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-lg pointer-events-none" style={{ left: `${position}%` }}></div>
+                <span className="absolute top-4 left-4 px-3 py-1.5 bg-black/50 text-white rounded-xl text-[10px] font-black uppercase">A · {label(left)}</span>
+                <span className="absolute top-4 right-4 px-3 py-1.5 bg-indigo-600 text-white rounded-xl text-[10px] font-black uppercase">B · {label(right)}</span>
+              </div>
+              <input type="range" min={0} max={100} value={position} onChange={(e) => setPosition(Number(e.target.value))} className="w-full accent-indigo-600" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              {[left, right].map((v, i) => (
+                <div key={i} className="relative aspect-video bg-gray-50 rounded-3xl overflow-hidden border border-gray-100">
+                  <img src={v.url} className="w-full h-full object-contain" />
+                  <span className={`absolute top-4 left-4 px-3 py-1.5 text-white rounded-xl text-[10px] font-black uppercase ${i === 0 ? 'bg-black/50' : 'bg-indigo-600'}`}>{i === 0 ? 'A' : 'B'} · {label(v)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-3 overflow-x-auto pb-2">
+            {versions.map(v => (
+              <div key={v.id} className={`shrink-0 w-32 rounded-2xl border-2 overflow-hidden ${v.id === finalVersionId ? 'border-indigo-600' : 'border-gray-100'}`}>
+                <img src={v.url} className="w-full aspect-video object-cover bg-gray-50" />
+                <div className="p-2 space-y-1.5">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] font-black text-gray-900">{label(v)}</span>
+                    <span className="text-[8px] font-black text-gray-400 uppercase">{t(`versionSource.${v.source}`)}{v.id === finalVersionId ? ` · ${t('compare.final')}` : ''}</span>
+                  </div>
+                  <div className="flex space-x-1">
+                    <button onClick={() => setLeftId(v.id)} className={`flex-1 py-1 rounded-lg text-[9px] font-black ${v.id === left.id ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-500'}`}>A</button>
+                    <button onClick={() => setRightId(v.id)} className={`flex-1 py-1 rounded-lg text-[9px] font-black ${v.id === right.id ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-500'}`}>B</button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {[left, right].map((v, i) => (
+              <div key={i} className="bg-gray-50 rounded-2xl p-5 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{i === 0 ? 'A' : 'B'} · {label(v)} · {formatDateTime(v.createdAt)}</span>
+                  <Button variant={v.id === finalVersionId ? 'secondary' : 'primary'} size="sm" className="rounded-xl font-black" disabled={v.id === finalVersionId} onClick={() => onSelectFinal(v.id)}>
+                    {v.id === finalVersionId ? t('compare.final') : t('compare.setFinal')}
+                  </Button>
+                </div>
+                <p className="text-[10px] font-bold text-gray-500">
+                  {catalogLabel(catalog, 'roomType', v.parameters.roomType)} · {catalogLabel(catalog, 'designStyle', v.parameters.designStyle)} · {catalogLabel(catalog, 'lightingEnv', v.parameters.lightingEnv)} · {t(`lightingDirection.${v.parameters.lightingDirection}`)}
+                </p>
+                <pre className="text-[10px] text-gray-600 whitespace-pre-wrap max-h-40 overflow-y-auto">{v.prompt || t('compare.noPrompt')}</pre>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionCompare;
@@ -0,0 +1,408 @@
+// Nguồn khoá của mọi bản dịch; thêm khoá mới ở đây trước rồi dịch trong vi.ts
+export const en = {
+  // Chung
+  'common.add': 'Add',
+  'common.apply': 'Apply',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.edit': 'Edit',
+  'common.export': 'Export',
+  'common.import': 'Import',
+  'common.save': 'Save',
+
+  // Khung ứng dụng
+  'app.tagline': 'Professional CGI Rendering',
+  'app.allProjects': 'All Projects',
+  'app.language': 'Language',
+  'app.connectKey': 'Connect Paid API Key',
+  'app.concurrency': 'Concurrent renders',
+  'app.retryFailed': 'Retry Failed ({count})',
+  'app.startStaging': 'Start Staging',
+  'app.batchRender': 'Batch Render',
+  'app.footer': '© 2025 Lem Studio AI - Professional Visualization Engine',
+  'mode.product': 'Single',
+  'mode.staging': 'Rooms',
+  'queue.rendering': 'Rendering {done}/{total}',
+  'queue.paused': 'Paused {done}/{total}',
+  'queue.failed': '{count} failed',
+  'queue.pause': 'Pause',
+  'queue.resume': 'Resume',
+
+  // Trang chủ và danh sách dự án
+  'home.description': 'A professional CGI rendering suite for product catalogs and interior staging from any phone snapshot.',
+  'home.create': 'Create New Project',
+  'home.open': 'Open {extension} File',
+  'projects.title': 'Workspace',
+  'projects.empty': 'Empty Project',
+  'projects.summary': '{count} Units · Updated {updated}',
+  'projects.open': 'Open',
+  'projects.duplicate': 'Duplicate',
+  'projects.confirmDelete': 'Delete project "{name}"?',
+
+  // Thông tin dự án
+  'project.defaultName': 'New Project',
+  'project.copyName': '{name} (Copy)',
+  'project.title': 'Project',
+  'project.client': 'Client',
+  'project.skuPrefix': 'SKU Prefix',
+  'project.exportZip': 'Export ZIP ({count})',
+  'project.saveBundle': 'Save {extension}',
+  'project.created': 'Created {date}',
+  'project.updated': 'Updated {date}',
+  'project.environment': 'Environment',
+
+  // Ảnh đầu vào
+  'inputs.title': 'Input Materials',
+  'inputs.units': '{count} Units',
+  'inputs.add': '+ Add Objects',
+  'inputs.confirm': 'Confirm Selection',
+  'inputs.selected': '{count} Selected',
+  'inputs.group': 'Group as Product',
+  'inputs.targetProject': 'Target project...',
+  'inputs.copy': 'Copy',
+  'inputs.move': 'Move',
+  'inputs.restore': 'Restore',
+  'inputs.preprocess': 'Pre-processing',
+  'inputs.replace': 'Replace source',
+  'inputs.remove': 'Remove',
+  'inputs.error': 'Error',
+  'inputs.versionHistory': 'Version history',
+  'inputFilter.active': 'All',
+  'inputFilter.Imported': 'Imported',
+  'inputFilter.Confirmed': 'Confirmed',
+  'inputFilter.Removed': 'Removed',
+  'inputFilter.Replaced': 'Replaced',
+  'viewType.top': 'Top',
+  'viewType.front': 'Front',
+  'viewType.side': 'Side',
+  'viewType.back': 'Back',
+  'viewType.detail': 'Detail',
+  'groups.productName': 'Product name',
+  'groups.ungroup': 'Ungroup',
+
+  // Cảnh dàn dựng
+  'scene.stackTitle': 'CGI Result Stack',
+  'scene.rendering': '{angle} Render...',
+  'scene.failed': 'Render Failed',
+  'scene.waiting': 'Waiting in Queue',
+  'render.stale': 'Outdated',
+  'render.staleHint': 'The input photo changed after this render. Render again to update it.',
+  'scene.master': 'Master Reference',
+  'scene.perspective': 'Perspective Shift',
+  'scene.upscale': 'Upscale {size}',
+  'scene.upscaleTo': 'Upscale to {size}',
+  'scene.download': 'Download {size}',
+  'scene.defaultProfile': 'Collection default',
+  'scene.rerender': 'Re-render',
+
+  // Tham số render
+  'params.space': 'Space',
+  'params.roomType': 'Room Scene',
+  'params.designStyle': 'Design Philosophy',
+  'params.lightingEnv': 'Light Theme',
+  'params.lightingDirection': 'Light Direction',
+  'params.colorPalette': 'Color Palette',
+  'params.mood': 'Mood',
+  'params.allowExtraProps': 'Allow Extra Props',
+  'params.layoutDensity': 'Layout Density',
+  'params.arrangement': 'Arrangement',
+  'params.cameraPositions': 'Camera Positions',
+  'palette.removeSwatch': '{hex} (click to remove)',
+  'spaceType.Interior': 'Interior',
+  'spaceType.Exterior': 'Exterior',
+  'roomType.Living Room': 'Living Room',
+  'roomType.Bedroom': 'Bedroom',
+  'roomType.Garden': 'Garden',
+  'roomType.Facade': 'Facade',
+  'roomType.Showroom': 'Showroom',
+  'roomType.Office': 'Office',
+  'roomType.Kitchen': 'Kitchen',
+  'roomType.Dining Room': 'Dining Room',
+  'roomType.Lobby': 'Lobby',
+  'designStyle.Modern': 'Modern',
+  'designStyle.Minimal': 'Minimal',
+  'designStyle.Japandi': 'Japandi',
+  'designStyle.Scandinavian': 'Scandinavian',
+  'designStyle.Luxury': 'Luxury',
+  'designStyle.Industrial': 'Industrial',
+  'designStyle.Classic': 'Classic',
+  'designStyle.Contemporary': 'Contemporary',
+  'lighting.Natural Morning': 'Natural Morning',
+  'lighting.Golden Hour (Sunset)': 'Golden Hour (Sunset)',
+  'lighting.High Noon (Bright)': 'High Noon (Bright)',
+  'lighting.Studio Professional': 'Studio Professional',
+  'lighting.Night (Warm Lights)': 'Night (Warm Lights)',
+  'lighting.Night (Moonlight)': 'Night (Moonlight)',
+  'lighting.Soft Overcast': 'Soft Overcast',
+  'lighting.Cinematic Moody': 'Cinematic Moody',
+  'lightingDirection.Front': 'Front',
+  'lightingDirection.Side': 'Side',
+  'lightingDirection.Back': 'Back',
+  'lightingDirection.Overhead': 'Overhead',
+  'layoutDensity.Minimal': 'Minimal',
+  'layoutDensity.Balanced': 'Balanced',
+  'layoutDensity.Spacious': 'Spacious',
+  'arrangement.Focal Point': 'Focal Point',
+  'arrangement.Symmetrical': 'Symmetrical',
+  'arrangement.Organic': 'Organic',
+  'cameraAngle.Wide Shot': 'Wide Shot',
+  'cameraAngle.Medium Shot': 'Medium Shot',
+  'cameraAngle.Close-up': 'Close-up',
+  'cameraAngle.Top-down': 'Top-down',
+  'cameraAngle.Side Perspective': 'Side Perspective',
+  'cameraAngle.Detail Shot': 'Detail Shot',
+
+  // Kiểm tra tham số
+  'validation.spaceType': 'Invalid space type.',
+  'validation.roomType': 'Invalid room type.',
+  'validation.roomNotExterior': '{room} is an interior space and cannot be used with Exterior.',
+  'validation.roomNotInterior': '{room} is an exterior space; choose Exterior.',
+  'validation.designStyle': 'Invalid design style.',
+  'validation.lightingEnv': 'Invalid lighting.',
+  'validation.lightingDirection': 'Invalid light direction.',
+  'validation.paletteEmpty': 'Pick at least one color.',
+  'validation.paletteMax': 'At most {max} colors.',
+  'validation.paletteFormat': 'Colors must use the #RRGGBB format.',
+  'validation.moodEmpty': 'Please describe the mood.',
+  'validation.moodLength': 'Mood can be at most {max} characters.',
+  'validation.layoutDensity': 'Invalid layout density.',
+  'validation.arrangementStyle': 'Invalid arrangement style.',
+  'validation.viewpointsEmpty': 'Pick at least one camera angle.',
+  'validation.viewpoints': 'Invalid camera angle.',
+  'validation.profileName': 'Please name the profile.',
+  'validation.aspectFormat': 'Ratio must look like W:H, e.g. 4:5.',
+  'validation.aspectRange': 'Ratio must be between 1:4 and 4:1.',
+  'validation.safeMargin': 'Safe margin must be between 0 and {max}%.',
+  'validation.catalogLabel': 'Please name the entry.',
+  'validation.catalogDuplicate': 'An entry with this name already exists.',
+  'validation.catalogPrompt': 'Please write the prompt fragment.',
+  'validation.catalogPromptLength': 'Prompt fragment can be at most {max} characters.',
+
+  // Lỗi
+  'error.quota': 'The API key has exceeded its quota. Connect a paid API key from a Google Cloud project with Billing enabled.',
+  'error.auth': 'The API key is invalid or its project no longer exists. Please select an API key again.',
+  'error.safety': 'The model refused to generate the image because of its safety filter ({reason}). Change the instructions or reference images and try again.',
+  'error.noImage': 'The model did not return an image.',
+  'error.network': 'Could not reach the render server. Check your connection and try again.',
+  'error.invalidInput': 'The submitted data is invalid (images or parameters).',
+  'error.unreadableInput': 'One of the input images could not be read; please replace it.',
+  'error.imageLoad': 'Could not process the image.',
+  'error.imageEncode': 'Could not encode the image.',
+  'error.interrupted': 'Render was interrupted.',
+  'error.cancelled': 'Cancelled.',
+  'error.masterFailed': 'The master shot has not rendered yet; please retry.',
+  'error.presetFile': 'This file is not a valid preset library.',
+  'error.bundleData': 'Project data in the file is missing or malformed.',
+  'error.bundleFormat': 'This file is not a valid Lem Studio project.',
+  'error.bundleVersion': 'This file was created by a newer version of Lem Studio; please update the app.',
+  'error.bundleVersionInvalid': 'The project file has an unknown format version ({version}).',
+  'error.bundleMedia': 'The project file is missing attached images.',
+  'errorTitle.quota': 'Quota Limit Reached',
+  'errorTitle.auth': 'API Key Required',
+  'errorTitle.safety': 'Blocked by Safety Filter',
+  'errorTitle.no-image': 'No Image Returned',
+  'errorTitle.network': 'Connection Problem',
+  'errorTitle.invalid-input': 'Invalid Input',
+  'errorTitle.unknown': 'Something Went Wrong',
+
+  // Thông báo
+  'notice.skip': 'Skip',
+  'notice.billingHint': 'You need to select an API key from a Google Cloud account with',
+  'notice.billingLink': 'Billing enabled',
+  'notice.deleteFailed': 'Could not delete the project',
+  'notice.exportFailed': 'Could not export the project',
+  'notice.openFailed': 'Could not open the project',
+  'notice.presetImportFailed': 'Could not import presets',
+  'notice.upscaleFailed': 'Upscale failed',
+  'notice.downloadFailed': 'Download failed',
+  'notice.editFailed': 'Edit failed',
+  'notice.stagingNeedsProducts': 'Please select at least one product to start Room Staging.',
+  'notice.budgetTitle': 'Budget Cap Reached',
+  'notice.budgetMessage': 'This project has used an estimated {cost}, reaching its {budget} cap. Raise or remove the cap under Usage & Cost to keep rendering.',
+
+  // Chỉnh sửa
+  'edit.title': 'AI Fine-tuning',
+  'edit.processing': 'Re-rendering...',
+  'edit.instructions': 'Edit Instructions',
+  'edit.placeholder': "e.g., 'Change the floor to dark walnut wood', 'Add more sunlight from the left'...",
+  'edit.apply': 'Apply Edit',
+  'edit.commit': 'Commit Step',
+  'editSession.title': 'Edit Steps',
+  'editSession.undo': 'Undo',
+  'editSession.redo': 'Redo',
+  'editSession.original': 'Original',
+  'editSession.masked': 'Masked',
+  'editSession.hint': 'Each edit is saved as a step. Pick any step to keep editing from there.',
+  'maskTool.brush': 'Brush',
+  'maskTool.lasso': 'Lasso',
+  'maskTool.erase': 'Erase',
+  'mask.size': 'Size',
+  'mask.clear': 'Clear Mask',
+  'mask.hintMasked': 'Only the painted area will be edited.',
+  'mask.hintEmpty': 'Paint over the area to change, or leave it empty to edit the whole image.',
+
+  // Phiên bản
+  'compare.productTitle': 'Product Versions',
+  'compare.sceneTitle': 'Scene Versions · {angle}',
+  'compare.slider': 'Slider',
+  'compare.side': 'Side by Side',
+  'compare.final': 'Final',
+  'compare.setFinal': 'Set as Final',
+  'compare.noPrompt': 'No prompt was recorded for this version.',
+  'versionSource.render': 'Render',
+  'versionSource.edit': 'Edit',
+  'versionSource.upscale': 'Upscale',
+
+  // Prompt template
+  'template.title': 'Prompt Templates',
+  'template.label': 'Prompt Template',
+  'template.builtIn': 'Built-in',
+  'template.inUse': 'In use',
+  'template.history': 'History ({count})',
+  'template.body': 'Template',
+  'template.preview': 'Live Preview',
+  'template.copyName': '{name} (Copy)',
+  'template.customName': '{name} (Custom)',
+  'template.saveAsNew': 'Save as New',
+  'template.saveVersion': 'Save Version',
+  'template.useForProject': 'Use for Project',
+  'template.name.builtin-product': 'Default Product',
+  'template.name.builtin-staging': 'Default Staging',
+
+  // Catalog
+  'catalog.title': 'Catalogs',
+  'catalog.button': 'Catalogs',
+  'catalog.kind.roomType': 'Rooms',
+  'catalog.kind.designStyle': 'Styles',
+  'catalog.kind.lightingEnv': 'Lighting',
+  'catalog.kind.cameraAngle': 'Camera Angles',
+  'catalog.builtIn': 'Built-in',
+  'catalog.custom': 'Custom',
+  'catalog.new': 'New Entry',
+  'catalog.label': 'Label',
+  'catalog.labelPlaceholder': 'e.g. Hotel Suite',
+  'catalog.prompt': 'Prompt Fragment',
+  'catalog.promptPlaceholder': 'How the AI should read this entry, e.g. luxury hotel suite with panoramic windows',
+  'catalog.promptHint': '{count}/{max} characters',
+  'catalog.thumbnail': 'Thumbnail',
+  'catalog.addThumbnail': 'Upload',
+  'catalog.space': 'Space',
+  'catalog.add': 'Add Entry',
+  'catalog.builtInReadOnly': 'Built-in entries cannot be edited. Add a custom entry instead.',
+
+  // Camera rig
+  'camera.parametric': 'Parametric Camera (Rig)',
+  'camera.promptOptional': 'Prompt Fragment (optional)',
+  'camera.focalLength': 'Focal Length',
+  'camera.height': 'Camera Height',
+  'camera.distance': 'Distance',
+  'camera.azimuth': 'Orbit',
+  'camera.tilt': 'Tilt',
+  'camera.front': 'Front',
+  'camera.diagramHint': 'Drag to place the camera around the hero product',
+
+  // Preset
+  'preset.title': 'Style Presets',
+  'preset.namePlaceholder': 'e.g. Client X Japandi Showroom',
+
+  // Mood board
+  'moodBoard.title': 'Mood Board (References)',
+  'moodBoard.add': 'Add Reference',
+  'moodBoard.usePalette': 'Use as Palette',
+  'moodRole.general': 'General',
+  'moodRole.lighting': 'Lighting',
+  'moodRole.material': 'Material',
+  'moodRole.color': 'Color',
+  'moodRole.layout': 'Layout',
+
+  // Tiền xử lý
+  'preprocess.title': 'Input Pre-processing',
+  'preprocess.failed': 'Could not process this image.',
+  'preprocess.before': 'Before',
+  'preprocess.after': 'After',
+  'preprocess.autoCrop': 'Auto Crop',
+  'preprocess.autoCropHint': 'Crop tightly around the product, dropping the floor and surrounding objects',
+  'preprocess.removeBackground': 'Remove Background',
+  'preprocess.removeBackgroundHint': 'Cut out the background touching the image edges, keeping bright areas inside the product',
+  'preprocess.whiteBalance': 'White Balance',
+  'preprocess.whiteBalanceHint': 'Neutralize the bright backdrop so material colors read true',
+  'preprocess.alwaysApplied': 'EXIF rotation and a white background for transparent PNGs are always applied.',
+  'preprocess.applyAll': 'Apply to All Inputs',
+
+  // Đầu ra
+  'output.title': 'Output',
+  'output.newProfile': 'New Profile',
+  'output.name': 'Name',
+  'output.namePlaceholder': 'e.g. Shopee Banner',
+  'output.ratio': 'Ratio (W:H)',
+  'output.resolution': 'Resolution',
+  'output.background': 'Background',
+  'output.safeMargin': 'Safe Area Margin · {margin}%',
+  'output.productProfile': 'Single Product Profile',
+  'output.stagingProfile': 'Room Staging Profile',
+  'output.profileName.builtin-ecommerce': 'E-commerce',
+  'output.profileName.builtin-square': 'Square Scene',
+  'output.profileName.builtin-instagram': 'Instagram Feed',
+  'output.profileName.builtin-story': 'Story / Reels',
+  'output.profileName.builtin-print': 'Print Catalog',
+  'output.profileName.builtin-wide': 'Wide Hero',
+  'output.legacyName': '{ratio} · {resolution} (earlier setting)',
+  'output.finalSize': 'Final Size',
+  'output.upscaleFinals': 'Upscale {count} Finals to {size}',
+  'background.scene': 'Room Scene',
+  'background.white': 'Studio White',
+  'background.palette': 'Palette Backdrop',
+
+  // Kiểm tra độ trung thực
+  'fidelity.title': 'Fidelity Check',
+  'fidelity.description': 'Compares the product in the render with the source photo (color and structure) to catch when the model changes legs, materials or shape.',
+  'fidelity.badge': 'Fidelity {score}',
+  'fidelity.badgeHint': 'The product may differ from the source photo · Color {color} · Structure {structure}',
+  'fidelity.warnBelow': 'Warn Below · {threshold}',
+  'fidelity.autoRerender': 'Auto Re-render',
+  'fidelity.maxAttempts': 'Max Attempts',
+  'fidelity.attempts': '{count} attempts',
+  'fidelity.rerenderLow': 'Re-render {count} Low Fidelity',
+
+  // Xuất file
+  'export.title': 'Export Collection',
+  'export.description': '{count} final renders will be packaged into a ZIP file.',
+  'export.format': 'Format',
+  'export.quality': 'Quality · {quality}',
+  'export.manifest': 'Manifest',
+  'export.packaging': 'Packaging {done}/{total}...',
+  'export.exportZip': 'Export ZIP',
+
+  // Chi phí
+  'usage.button': 'Usage',
+  'usage.title': 'Usage & Cost',
+  'usage.dashboard': 'Dashboard',
+  'usage.estCost': 'Est. Cost',
+  'usage.requests': 'Requests',
+  'usage.failed': 'Failed',
+  'usage.failedCount': '{count} failed',
+  'usage.retries': 'Retries',
+  'usage.tokens': 'Tokens',
+  'usage.cost': 'Cost',
+  'usage.time': 'Time',
+  'usage.operation': 'Operation',
+  'usage.model': 'Model',
+  'usage.size': 'Size',
+  'usage.duration': 'Duration',
+  'usage.budget': 'Budget Cap (USD)',
+  'usage.noLimit': 'No limit',
+  'usage.overBudget': 'Budget cap reached; raise or remove it to keep rendering.',
+  'usage.estimateNote': "Costs are estimated from each model's list price; see Google Cloud Billing for actual charges.",
+  'usage.clientProject': 'Client / Project',
+  'usage.noClient': 'No Client',
+  'usage.cap': 'cap {cost}',
+  'usage.recent': 'Recent Requests · {name}',
+  'usage.empty': 'No renders yet.',
+  'operation.product': 'Product',
+  'operation.staging': 'Staging',
+  'operation.edit': 'Edit',
+  'operation.upscale': 'Upscale'
+};
+
+export type MessageKey = keyof typeof en;
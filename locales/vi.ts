@@ -0,0 +1,407 @@
+import { MessageKey } from "./en";
+
+export const vi: Record<MessageKey, string> = {
+  // Chung
+  'common.add': 'Thêm',
+  'common.apply': 'Áp dụng',
+  'common.cancel': 'Huỷ',
+  'common.close': 'Đóng',
+  'common.delete': 'Xoá',
+  'common.edit': 'Sửa',
+  'common.export': 'Xuất',
+  'common.import': 'Nhập',
+  'common.save': 'Lưu',
+
+  // Khung ứng dụng
+  'app.tagline': 'Render CGI chuyên nghiệp',
+  'app.allProjects': 'Tất cả dự án',
+  'app.language': 'Ngôn ngữ',
+  'app.connectKey': 'Kết nối API Key trả phí',
+  'app.concurrency': 'Số lượt render song song',
+  'app.retryFailed': 'Thử lại ảnh lỗi ({count})',
+  'app.startStaging': 'Bắt đầu dàn cảnh',
+  'app.batchRender': 'Render hàng loạt',
+  'app.footer': '© 2025 Lem Studio AI - Công cụ diễn họa chuyên nghiệp',
+  'mode.product': 'Sản phẩm',
+  'mode.staging': 'Phòng',
+  'queue.rendering': 'Đang render {done}/{total}',
+  'queue.paused': 'Tạm dừng {done}/{total}',
+  'queue.failed': '{count} lỗi',
+  'queue.pause': 'Tạm dừng',
+  'queue.resume': 'Tiếp tục',
+
+  // Trang chủ và danh sách dự án
+  'home.description': 'Bộ giải pháp Render CGI chuyên nghiệp dành cho Catalog sản phẩm và phối cảnh nội thất từ bất kỳ bức ảnh chụp điện thoại nào.',
+  'home.create': 'Tạo dự án mới',
+  'home.open': 'Mở file {extension}',
+  'projects.title': 'Không gian làm việc',
+  'projects.empty': 'Dự án trống',
+  'projects.summary': '{count} ảnh · Cập nhật {updated}',
+  'projects.open': 'Mở',
+  'projects.duplicate': 'Nhân bản',
+  'projects.confirmDelete': 'Xóa dự án "{name}"?',
+
+  // Thông tin dự án
+  'project.defaultName': 'Dự án mới',
+  'project.copyName': '{name} (Bản sao)',
+  'project.title': 'Dự án',
+  'project.client': 'Khách hàng',
+  'project.skuPrefix': 'Tiền tố SKU',
+  'project.exportZip': 'Xuất ZIP ({count})',
+  'project.saveBundle': 'Lưu {extension}',
+  'project.created': 'Tạo ngày {date}',
+  'project.updated': 'Cập nhật {date}',
+  'project.environment': 'Môi trường',
+
+  // Ảnh đầu vào
+  'inputs.title': 'Ảnh đầu vào',
+  'inputs.units': '{count} ảnh',
+  'inputs.add': '+ Thêm sản phẩm',
+  'inputs.confirm': 'Xác nhận lựa chọn',
+  'inputs.selected': 'Đã chọn {count}',
+  'inputs.group': 'Gộp thành sản phẩm',
+  'inputs.targetProject': 'Dự án đích...',
+  'inputs.copy': 'Sao chép',
+  'inputs.move': 'Chuyển',
+  'inputs.restore': 'Khôi phục',
+  'inputs.preprocess': 'Tiền xử lý',
+  'inputs.replace': 'Thay ảnh gốc',
+  'inputs.remove': 'Loại bỏ',
+  'inputs.error': 'Lỗi',
+  'inputs.versionHistory': 'Lịch sử phiên bản',
+  'inputFilter.active': 'Tất cả',
+  'inputFilter.Imported': 'Mới nhập',
+  'inputFilter.Confirmed': 'Đã xác nhận',
+  'inputFilter.Removed': 'Đã loại',
+  'inputFilter.Replaced': 'Đã thay',
+  'viewType.top': 'Trên',
+  'viewType.front': 'Trước',
+  'viewType.side': 'Cạnh',
+  'viewType.back': 'Sau',
+  'viewType.detail': 'Chi tiết',
+  'groups.productName': 'Tên sản phẩm',
+  'groups.ungroup': 'Tách nhóm',
+
+  // Cảnh dàn dựng
+  'scene.stackTitle': 'Kết quả CGI',
+  'scene.rendering': 'Đang render {angle}...',
+  'scene.failed': 'Render thất bại',
+  'scene.waiting': 'Đang chờ trong hàng đợi',
+  'render.stale': 'Đã cũ',
+  'render.staleHint': 'Ảnh đầu vào đã thay đổi sau lần render này. Hãy render lại để cập nhật.',
+  'scene.master': 'Ảnh tham chiếu chính',
+  'scene.perspective': 'Đổi góc nhìn',
+  'scene.upscale': 'Upscale {size}',
+  'scene.upscaleTo': 'Upscale lên {size}',
+  'scene.download': 'Tải {size}',
+  'scene.defaultProfile': 'Mặc định của dự án',
+  'scene.rerender': 'Render lại',
+
+  // Tham số render
+  'params.space': 'Không gian',
+  'params.roomType': 'Loại phòng',
+  'params.designStyle': 'Phong cách thiết kế',
+  'params.lightingEnv': 'Ánh sáng',
+  'params.lightingDirection': 'Hướng sáng',
+  'params.colorPalette': 'Bảng màu',
+  'params.mood': 'Không khí',
+  'params.allowExtraProps': 'Cho phép thêm đồ trang trí',
+  'params.layoutDensity': 'Mật độ bố trí',
+  'params.arrangement': 'Kiểu sắp xếp',
+  'params.cameraPositions': 'Góc máy',
+  'palette.removeSwatch': '{hex} (bấm để xoá)',
+  'spaceType.Interior': 'Nội thất',
+  'spaceType.Exterior': 'Ngoại thất',
+  'roomType.Living Room': 'Phòng khách',
+  'roomType.Bedroom': 'Phòng ngủ',
+  'roomType.Garden': 'Sân vườn',
+  'roomType.Facade': 'Mặt tiền',
+  'roomType.Showroom': 'Showroom',
+  'roomType.Office': 'Văn phòng',
+  'roomType.Kitchen': 'Nhà bếp',
+  'roomType.Dining Room': 'Phòng ăn',
+  'roomType.Lobby': 'Sảnh',
+  'designStyle.Modern': 'Hiện đại',
+  'designStyle.Minimal': 'Tối giản',
+  'designStyle.Japandi': 'Japandi',
+  'designStyle.Scandinavian': 'Bắc Âu',
+  'designStyle.Luxury': 'Sang trọng',
+  'designStyle.Industrial': 'Công nghiệp',
+  'designStyle.Classic': 'Cổ điển',
+  'designStyle.Contemporary': 'Đương đại',
+  'lighting.Natural Morning': 'Nắng sớm tự nhiên',
+  'lighting.Golden Hour (Sunset)': 'Giờ vàng (hoàng hôn)',
+  'lighting.High Noon (Bright)': 'Giữa trưa (chói sáng)',
+  'lighting.Studio Professional': 'Studio chuyên nghiệp',
+  'lighting.Night (Warm Lights)': 'Ban đêm (đèn ấm)',
+  'lighting.Night (Moonlight)': 'Ban đêm (ánh trăng)',
+  'lighting.Soft Overcast': 'Trời râm dịu',
+  'lighting.Cinematic Moody': 'Điện ảnh trầm',
+  'lightingDirection.Front': 'Phía trước',
+  'lightingDirection.Side': 'Bên cạnh',
+  'lightingDirection.Back': 'Phía sau',
+  'lightingDirection.Overhead': 'Trên cao',
+  'layoutDensity.Minimal': 'Tối giản',
+  'layoutDensity.Balanced': 'Cân bằng',
+  'layoutDensity.Spacious': 'Thoáng',
+  'arrangement.Focal Point': 'Điểm nhấn',
+  'arrangement.Symmetrical': 'Đối xứng',
+  'arrangement.Organic': 'Tự nhiên',
+  'cameraAngle.Wide Shot': 'Toàn cảnh',
+  'cameraAngle.Medium Shot': 'Trung cảnh',
+  'cameraAngle.Close-up': 'Cận cảnh',
+  'cameraAngle.Top-down': 'Từ trên xuống',
+  'cameraAngle.Side Perspective': 'Góc nghiêng',
+  'cameraAngle.Detail Shot': 'Cận cảnh chi tiết',
+
+  // Kiểm tra tham số
+  'validation.spaceType': 'Loại không gian không hợp lệ.',
+  'validation.roomType': 'Loại phòng không hợp lệ.',
+  'validation.roomNotExterior': '{room} là không gian nội thất, không dùng được với Ngoại thất.',
+  'validation.roomNotInterior': '{room} là không gian ngoại thất, hãy chọn Ngoại thất.',
+  'validation.designStyle': 'Phong cách thiết kế không hợp lệ.',
+  'validation.lightingEnv': 'Ánh sáng không hợp lệ.',
+  'validation.lightingDirection': 'Hướng sáng không hợp lệ.',
+  'validation.paletteEmpty': 'Chọn ít nhất một màu.',
+  'validation.paletteMax': 'Tối đa {max} màu.',
+  'validation.paletteFormat': 'Mã màu phải có dạng #RRGGBB.',
+  'validation.moodEmpty': 'Vui lòng mô tả không khí (mood).',
+  'validation.moodLength': 'Mood tối đa {max} ký tự.',
+  'validation.layoutDensity': 'Mật độ bố trí không hợp lệ.',
+  'validation.arrangementStyle': 'Kiểu sắp xếp không hợp lệ.',
+  'validation.viewpointsEmpty': 'Chọn ít nhất một góc máy.',
+  'validation.viewpoints': 'Góc máy không hợp lệ.',
+  'validation.profileName': 'Vui lòng đặt tên cho profile.',
+  'validation.aspectFormat': 'Tỉ lệ phải có dạng W:H, ví dụ 4:5.',
+  'validation.aspectRange': 'Tỉ lệ phải nằm trong khoảng 1:4 đến 4:1.',
+  'validation.safeMargin': 'Lề an toàn phải từ 0 đến {max}%.',
+  'validation.catalogLabel': 'Vui lòng đặt tên cho mục.',
+  'validation.catalogDuplicate': 'Đã có mục trùng tên.',
+  'validation.catalogPrompt': 'Vui lòng nhập đoạn prompt.',
+  'validation.catalogPromptLength': 'Đoạn prompt tối đa {max} ký tự.',
+
+  // Lỗi
+  'error.quota': 'Đã vượt giới hạn (quota) của API Key. Hãy kết nối một API Key trả phí thuộc dự án Google Cloud có bật Billing.',
+  'error.auth': 'API Key không hợp lệ hoặc dự án không còn tồn tại. Hãy chọn lại API Key.',
+  'error.safety': 'Mô hình từ chối tạo ảnh do bộ lọc an toàn ({reason}). Hãy đổi chỉ dẫn hoặc ảnh tham chiếu rồi thử lại.',
+  'error.noImage': 'Mô hình không trả về ảnh.',
+  'error.network': 'Không kết nối được tới máy chủ render. Kiểm tra mạng rồi thử lại.',
+  'error.invalidInput': 'Dữ liệu gửi lên không hợp lệ (ảnh hoặc tham số).',
+  'error.unreadableInput': 'Không đọc được một ảnh đầu vào; hãy thay ảnh khác.',
+  'error.imageLoad': 'Không thể xử lý hình ảnh.',
+  'error.imageEncode': 'Không thể mã hóa hình ảnh.',
+  'error.interrupted': 'Render bị gián đoạn.',
+  'error.cancelled': 'Đã huỷ.',
+  'error.masterFailed': 'Master shot chưa render được, hãy thử lại.',
+  'error.presetFile': 'File không phải là thư viện preset hợp lệ.',
+  'error.bundleData': 'Dữ liệu dự án trong file bị thiếu hoặc sai cấu trúc.',
+  'error.bundleFormat': 'File không phải là dự án Lem Studio hợp lệ.',
+  'error.bundleVersion': 'File được tạo bởi phiên bản Lem Studio mới hơn, vui lòng cập nhật ứng dụng.',
+  'error.bundleVersionInvalid': 'File dự án có phiên bản định dạng không xác định ({version}).',
+  'error.bundleMedia': 'File dự án bị thiếu hình ảnh đính kèm.',
+  'errorTitle.quota': 'Đã hết hạn mức',
+  'errorTitle.auth': 'Cần API Key',
+  'errorTitle.safety': 'Bị chặn bởi bộ lọc an toàn',
+  'errorTitle.no-image': 'Không có ảnh trả về',
+  'errorTitle.network': 'Lỗi kết nối',
+  'errorTitle.invalid-input': 'Dữ liệu không hợp lệ',
+  'errorTitle.unknown': 'Đã xảy ra lỗi',
+
+  // Thông báo
+  'notice.skip': 'Bỏ qua',
+  'notice.billingHint': 'Bạn cần chọn một API Key từ tài khoản Google Cloud có bật',
+  'notice.billingLink': 'Thanh toán (Billing)',
+  'notice.deleteFailed': 'Không thể xoá dự án',
+  'notice.exportFailed': 'Không thể xuất dự án',
+  'notice.openFailed': 'Không thể mở dự án',
+  'notice.presetImportFailed': 'Không thể nhập preset',
+  'notice.upscaleFailed': 'Lỗi upscale',
+  'notice.downloadFailed': 'Lỗi tải ảnh',
+  'notice.editFailed': 'Lỗi chỉnh sửa',
+  'notice.stagingNeedsProducts': 'Vui lòng chọn ít nhất một sản phẩm để bắt đầu Room Staging.',
+  'notice.budgetTitle': 'Đã chạm trần chi phí',
+  'notice.budgetMessage': 'Dự án đã dùng ước tính {cost}, chạm trần {budget}. Hãy nâng hoặc bỏ trần trong mục Chi phí để render tiếp.',
+
+  // Chỉnh sửa
+  'edit.title': 'Tinh chỉnh bằng AI',
+  'edit.processing': 'Đang render lại...',
+  'edit.instructions': 'Chỉ dẫn chỉnh sửa',
+  'edit.placeholder': "VD: 'Đổi sàn sang gỗ óc chó tối màu', 'Thêm nắng chiếu từ bên trái'...",
+  'edit.apply': 'Áp dụng chỉnh sửa',
+  'edit.commit': 'Lưu bước này',
+  'editSession.title': 'Các bước chỉnh sửa',
+  'editSession.undo': 'Hoàn tác',
+  'editSession.redo': 'Làm lại',
+  'editSession.original': 'Ảnh gốc',
+  'editSession.masked': 'Có vùng chọn',
+  'editSession.hint': 'Mỗi lần chỉnh sửa được lưu thành một bước. Chọn một bước bất kỳ để sửa tiếp từ đó.',
+  'maskTool.brush': 'Cọ',
+  'maskTool.lasso': 'Lasso',
+  'maskTool.erase': 'Tẩy',
+  'mask.size': 'Cỡ',
+  'mask.clear': 'Xoá vùng chọn',
+  'mask.hintMasked': 'Chỉ vùng được tô sẽ bị chỉnh sửa.',
+  'mask.hintEmpty': 'Tô lên vùng cần sửa, hoặc để trống để chỉnh sửa toàn bộ ảnh.',
+
+  // Phiên bản
+  'compare.productTitle': 'Phiên bản sản phẩm',
+  'compare.sceneTitle': 'Phiên bản cảnh · {angle}',
+  'compare.slider': 'Thanh trượt',
+  'compare.side': 'Song song',
+  'compare.final': 'Bản chốt',
+  'compare.setFinal': 'Chọn làm bản chốt',
+  'compare.noPrompt': 'Prompt không được ghi lại cho phiên bản này.',
+  'versionSource.render': 'Render',
+  'versionSource.edit': 'Chỉnh sửa',
+  'versionSource.upscale': 'Upscale',
+
+  // Prompt template
+  'template.title': 'Prompt template',
+  'template.label': 'Prompt template',
+  'template.builtIn': 'Có sẵn',
+  'template.inUse': 'Đang dùng',
+  'template.history': 'Lịch sử ({count})',
+  'template.body': 'Nội dung',
+  'template.preview': 'Xem trước',
+  'template.copyName': '{name} (Bản sao)',
+  'template.customName': '{name} (Tuỳ chỉnh)',
+  'template.saveAsNew': 'Lưu thành bản mới',
+  'template.saveVersion': 'Lưu phiên bản',
+  'template.useForProject': 'Dùng cho dự án',
+  'template.name.builtin-product': 'Sản phẩm mặc định',
+  'template.name.builtin-staging': 'Dàn cảnh mặc định',
+
+  // Catalog
+  'catalog.title': 'Danh mục',
+  'catalog.button': 'Danh mục',
+  'catalog.kind.roomType': 'Không gian',
+  'catalog.kind.designStyle': 'Phong cách',
+  'catalog.kind.lightingEnv': 'Ánh sáng',
+  'catalog.kind.cameraAngle': 'Góc máy',
+  'catalog.builtIn': 'Có sẵn',
+  'catalog.custom': 'Tuỳ chỉnh',
+  'catalog.new': 'Mục mới',
+  'catalog.label': 'Tên hiển thị',
+  'catalog.labelPlaceholder': 'VD: Phòng suite khách sạn',
+  'catalog.prompt': 'Đoạn prompt',
+  'catalog.promptPlaceholder': 'Cách AI hiểu mục này, VD: luxury hotel suite with panoramic windows',
+  'catalog.promptHint': '{count}/{max} ký tự',
+  'catalog.thumbnail': 'Ảnh minh hoạ',
+  'catalog.addThumbnail': 'Tải ảnh',
+  'catalog.space': 'Không gian',
+  'catalog.add': 'Thêm mục',
+  'catalog.builtInReadOnly': 'Mục có sẵn không sửa được. Hãy thêm mục tuỳ chỉnh.',
+
+  // Camera rig
+  'camera.parametric': 'Camera theo thông số (rig)',
+  'camera.promptOptional': 'Đoạn prompt (tuỳ chọn)',
+  'camera.focalLength': 'Tiêu cự',
+  'camera.height': 'Độ cao máy',
+  'camera.distance': 'Khoảng cách',
+  'camera.azimuth': 'Góc quay quanh',
+  'camera.tilt': 'Độ nghiêng',
+  'camera.front': 'Mặt trước',
+  'camera.diagramHint': 'Kéo để đặt máy quanh sản phẩm chính',
+
+  // Preset
+  'preset.title': 'Preset phong cách',
+  'preset.namePlaceholder': 'VD: Showroom Japandi khách X',
+
+  // Mood board
+  'moodBoard.title': 'Mood board (ảnh tham chiếu)',
+  'moodBoard.add': 'Thêm ảnh tham chiếu',
+  'moodBoard.usePalette': 'Dùng làm bảng màu',
+  'moodRole.general': 'Tổng thể',
+  'moodRole.lighting': 'Ánh sáng',
+  'moodRole.material': 'Chất liệu',
+  'moodRole.color': 'Màu sắc',
+  'moodRole.layout': 'Bố cục',
+
+  // Tiền xử lý
+  'preprocess.title': 'Tiền xử lý ảnh đầu vào',
+  'preprocess.failed': 'Không thể xử lý ảnh này.',
+  'preprocess.before': 'Trước',
+  'preprocess.after': 'Sau',
+  'preprocess.autoCrop': 'Tự cắt khung',
+  'preprocess.autoCropHint': 'Cắt sát sản phẩm, bỏ phần sàn và đồ vật xung quanh',
+  'preprocess.removeBackground': 'Tách nền',
+  'preprocess.removeBackgroundHint': 'Tách nền liền với mép ảnh, giữ nguyên vùng sáng bên trong sản phẩm',
+  'preprocess.whiteBalance': 'Cân bằng trắng',
+  'preprocess.whiteBalanceHint': 'Đưa phông nền sáng về màu trung tính để màu vật liệu chuẩn hơn',
+  'preprocess.alwaysApplied': 'Xoay theo EXIF và nền trắng cho ảnh PNG trong suốt luôn được áp dụng.',
+  'preprocess.applyAll': 'Áp dụng cho mọi ảnh',
+
+  // Đầu ra
+  'output.title': 'Đầu ra',
+  'output.newProfile': 'Profile mới',
+  'output.name': 'Tên',
+  'output.namePlaceholder': 'VD: Banner Shopee',
+  'output.ratio': 'Tỉ lệ (R:C)',
+  'output.resolution': 'Độ phân giải',
+  'output.background': 'Nền',
+  'output.safeMargin': 'Lề an toàn · {margin}%',
+  'output.productProfile': 'Profile sản phẩm',
+  'output.stagingProfile': 'Profile dàn cảnh',
+  'output.profileName.builtin-ecommerce': 'Thương mại điện tử',
+  'output.profileName.builtin-square': 'Cảnh vuông',
+  'output.profileName.builtin-instagram': 'Bảng tin Instagram',
+  'output.profileName.builtin-story': 'Story / Reels',
+  'output.profileName.builtin-print': 'Catalog in',
+  'output.profileName.builtin-wide': 'Ảnh ngang lớn',
+  'output.legacyName': '{ratio} · {resolution} (thiết lập cũ)',
+  'output.finalSize': 'Kích thước bản chốt',
+  'output.upscaleFinals': 'Upscale {count} bản chốt lên {size}',
+  'background.scene': 'Cảnh phòng',
+  'background.white': 'Nền trắng studio',
+  'background.palette': 'Phông theo bảng màu',
+
+  // Kiểm tra độ trung thực
+  'fidelity.title': 'Kiểm tra độ trung thực',
+  'fidelity.description': 'So sánh sản phẩm trong ảnh render với ảnh gốc (màu sắc và cấu trúc) để phát hiện khi mô hình thay đổi chân, chất liệu hay hình dáng sản phẩm.',
+  'fidelity.badge': 'Trung thực {score}',
+  'fidelity.badgeHint': 'Sản phẩm có thể đã bị thay đổi so với ảnh gốc · Màu {color} · Cấu trúc {structure}',
+  'fidelity.warnBelow': 'Cảnh báo dưới · {threshold}',
+  'fidelity.autoRerender': 'Tự render lại',
+  'fidelity.maxAttempts': 'Số lần tối đa',
+  'fidelity.attempts': '{count} lần',
+  'fidelity.rerenderLow': 'Render lại {count} ảnh kém trung thực',
+
+  // Xuất file
+  'export.title': 'Xuất bộ sưu tập',
+  'export.description': '{count} ảnh chốt sẽ được đóng gói thành một file ZIP.',
+  'export.format': 'Định dạng',
+  'export.quality': 'Chất lượng · {quality}',
+  'export.manifest': 'Manifest',
+  'export.packaging': 'Đang đóng gói {done}/{total}...',
+  'export.exportZip': 'Xuất ZIP',
+
+  // Chi phí
+  'usage.button': 'Chi phí',
+  'usage.title': 'Lượt dùng & chi phí',
+  'usage.dashboard': 'Bảng tổng hợp',
+  'usage.estCost': 'Chi phí ước tính',
+  'usage.requests': 'Lượt gọi',
+  'usage.failed': 'Lỗi',
+  'usage.failedCount': '{count} lỗi',
+  'usage.retries': 'Thử lại',
+  'usage.tokens': 'Token',
+  'usage.cost': 'Chi phí',
+  'usage.time': 'Thời gian',
+  'usage.operation': 'Thao tác',
+  'usage.model': 'Model',
+  'usage.size': 'Kích thước',
+  'usage.duration': 'Thời lượng',
+  'usage.budget': 'Trần chi phí (USD)',
+  'usage.noLimit': 'Không giới hạn',
+  'usage.overBudget': 'Đã chạm trần chi phí; nâng hoặc bỏ trần để render tiếp.',
+  'usage.estimateNote': 'Chi phí được ước tính theo bảng giá niêm yết của từng model; số tiền thực tế xem trong Google Cloud Billing.',
+  'usage.clientProject': 'Khách hàng / Dự án',
+  'usage.noClient': 'Chưa có khách hàng',
+  'usage.cap': 'trần {cost}',
+  'usage.recent': 'Lượt gọi gần đây · {name}',
+  'usage.empty': 'Chưa có lượt render nào.',
+  'operation.product': 'Sản phẩm',
+  'operation.staging': 'Dàn cảnh',
+  'operation.edit': 'Chỉnh sửa',
+  'operation.upscale': 'Upscale'
+};
@@ -0,0 +1,73 @@
+import { CameraRig } from "../types";
+
+export const CAMERA_FIELDS: (keyof CameraRig)[] = ['focalLength', 'height', 'distance', 'azimuth', 'tilt'];
+
+// Giới hạn của từng thông số; thanh trượt và kiểm tra file nhập dùng chung
+export const CAMERA_LIMITS: Record<keyof CameraRig, { min: number; max: number; step: number }> = {
+  focalLength: { min: 14, max: 200, step: 1 },
+  height: { min: 0.1, max: 4, step: 0.1 },
+  distance: { min: 0.5, max: 12, step: 0.1 },
+  azimuth: { min: 0, max: 359, step: 1 },
+  tilt: { min: -90, max: 45, step: 1 }
+};
+
+export const DEFAULT_CAMERA_RIG: CameraRig = { focalLength: 35, height: 1.4, distance: 4, azimuth: 0, tilt: -5 };
+
+// Tên hướng theo từng nấc 45°, tính từ mặt trước của sản phẩm theo chiều kim đồng hồ
+const ORBIT_SIDES = ['in front of', 'front-right of', 'to the right of', 'behind and to the right of', 'behind', 'behind and to the left of', 'to the left of', 'front-left of'];
+
+export const normalizeAzimuth = (degrees: number): number => ((Math.round(degrees) % 360) + 360) % 360;
+
+const round = (value: number, step: number) => Math.round(value / step) * step;
+
+/** Snaps every field to its step and range, so a rig from a slider or a file is always valid. */
+export const clampRig = (rig: CameraRig): CameraRig => ({
+  ...rig,
+  ...Object.fromEntries(CAMERA_FIELDS.map(field => {
+    const { min, max, step } = CAMERA_LIMITS[field];
+    const value = field === 'azimuth' ? normalizeAzimuth(rig.azimuth) : Math.min(max, Math.max(min, rig[field]));
+    return [field, Number(round(value, step).toFixed(1))];
+  }))
+});
+
+export const isCameraRig = (value: unknown): value is CameraRig =>
+  !!value && typeof value === 'object' &&
+  CAMERA_FIELDS.every(field => {
+    const v = (value as Record<string, unknown>)[field];
+    return typeof v === 'number' && v >= CAMERA_LIMITS[field].min && v <= CAMERA_LIMITS[field].max;
+  });
+
+/** Horizontal field of view in degrees for a full-frame (36 mm wide) sensor. */
+export const fieldOfView = (focalLength: number): number => 2 * Math.atan(18 / focalLength) * 180 / Math.PI;
+
+const lensCharacter = (focalLength: number): string => {
+  if (focalLength < 24) return 'ultra-wide lens with strong perspective';
+  if (focalLength < 35) return 'wide-angle lens';
+  if (focalLength <= 60) return 'normal lens with natural perspective';
+  if (focalLength <= 105) return 'short telephoto lens with gently compressed perspective';
+  return 'telephoto lens with strongly compressed perspective';
+};
+
+const heightCharacter = (height: number): string => {
+  if (height < 0.6) return 'near floor level';
+  if (height < 1.3) return 'at seated eye level';
+  if (height <= 1.8) return 'at standing eye level';
+  return 'from an elevated position';
+};
+
+const tiltInstructions = (tilt: number): string => {
+  if (Math.abs(tilt) < 3) return 'The camera is level: keep all vertical lines perfectly vertical (two-point perspective).';
+  return `The camera is tilted ${Math.abs(tilt)}° ${tilt < 0 ? 'downward' : 'upward'}.`;
+};
+
+/** Short "35mm · 1.4m · 45°" tag shown next to a rig's label. */
+export const rigSummary = (rig: CameraRig): string => `${rig.focalLength}mm · ${rig.height}m · ${rig.azimuth}°`;
+
+/** Translates a rig into explicit camera placement instructions for the staging prompt. */
+export const cameraInstructions = (rig: CameraRig): string => [
+  `Camera Setup: ${rig.focalLength}mm ${lensCharacter(rig.focalLength)} (about ${Math.round(fieldOfView(rig.focalLength))}° horizontal field of view).`,
+  `Place the camera ${rig.distance} m ${ORBIT_SIDES[Math.round(normalizeAzimuth(rig.azimuth) / 45) % 8]} the hero product (the first furniture image), ` +
+    `at an orbit angle of ${rig.azimuth}° measured clockwise from the product's front as seen from above (90° is the product's right-hand side).`,
+  `Lens height ${rig.height} m above the floor, ${heightCharacter(rig.height)}, aimed at the hero product.`,
+  tiltInstructions(rig.tilt)
+].join(' ');
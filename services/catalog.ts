@@ -0,0 +1,134 @@
+import { CameraAngle, CatalogEntry, CatalogKind, Collection, DesignStyle, LightingEnvironment, RoomType, RenderParameters, StylePreset } from "../types";
+import { MessageKey } from "../locales/en";
+import { CATALOG_STORE, runRequest, dehydrate, hydrate } from "./db";
+import { isCameraRig } from "./camera";
+import { t } from "./i18n";
+
+export const CATALOG_KINDS: CatalogKind[] = ['roomType', 'designStyle', 'lightingEnv', 'cameraAngle'];
+
+export const MAX_CATALOG_PROMPT = 300;
+
+// Tiền tố khoá dịch cho nhãn của các mục có sẵn
+const LABEL_PREFIX: Record<CatalogKind, string> = {
+  roomType: 'roomType',
+  designStyle: 'designStyle',
+  lightingEnv: 'lighting',
+  cameraAngle: 'cameraAngle'
+};
+
+const EXTERIOR_ROOMS: string[] = [RoomType.GARDEN, RoomType.FACADE];
+
+// Mục có sẵn dùng chính giá trị enum làm đoạn prompt, nên prompt cũ không đổi
+const builtIn = (kind: CatalogKind, id: string): CatalogEntry => ({ id, kind, label: id, prompt: id, builtIn: true, createdAt: 0 });
+
+export const BUILT_IN_CATALOG: CatalogEntry[] = [
+  ...Object.values(RoomType).map(id => ({ ...builtIn('roomType', id), spaceType: EXTERIOR_ROOMS.includes(id) ? 'Exterior' as const : 'Interior' as const })),
+  ...Object.values(DesignStyle).map(id => builtIn('designStyle', id)),
+  ...Object.values(LightingEnvironment).map(id => builtIn('lightingEnv', id)),
+  ...Object.values(CameraAngle).map(id => builtIn('cameraAngle', id))
+];
+
+export const catalogEntries = (catalog: CatalogEntry[], kind: CatalogKind): CatalogEntry[] => catalog.filter(e => e.kind === kind);
+
+export const findEntry = (catalog: CatalogEntry[], kind: CatalogKind, id: string): CatalogEntry | undefined =>
+  catalog.find(e => e.kind === kind && e.id === id);
+
+/** Display label of a parameter value; an entry that was deleted shows its raw id. */
+export const catalogLabel = (catalog: CatalogEntry[], kind: CatalogKind, id: string): string => {
+  const entry = findEntry(catalog, kind, id);
+  if (!entry) return id;
+  return entry.builtIn ? t(`${LABEL_PREFIX[kind]}.${entry.id}` as MessageKey) : entry.label;
+};
+
+/**
+ * Prompt fragment of a parameter value, falling back to the id (which is the fragment of every built-in entry).
+ * Camera rigs may leave the fragment empty and use their label instead.
+ */
+export const catalogPrompt = (catalog: CatalogEntry[], kind: CatalogKind, id: string): string => {
+  const entry = findEntry(catalog, kind, id);
+  return entry ? entry.prompt || entry.label : id;
+};
+
+export const createCatalogEntry = (kind: CatalogKind): CatalogEntry => ({
+  id: Math.random().toString(36).substr(2, 9),
+  kind,
+  label: '',
+  prompt: '',
+  ...(kind === 'roomType' ? { spaceType: 'Interior' as const } : {}),
+  createdAt: Date.now()
+});
+
+export type CatalogErrors = Partial<Record<'label' | 'prompt', string>>;
+
+export const validateCatalogEntry = (entry: CatalogEntry, catalog: CatalogEntry[]): CatalogErrors => {
+  const errors: CatalogErrors = {};
+  const label = entry.label.trim();
+  if (!label) {
+    errors.label = t('validation.catalogLabel');
+  } else if (catalogEntries(catalog, entry.kind).some(e => e.id !== entry.id && catalogLabel(catalog, e.kind, e.id).toLowerCase() === label.toLowerCase())) {
+    errors.label = t('validation.catalogDuplicate');
+  }
+  const prompt = entry.prompt.trim();
+  // Camera rig đã có thông số nên đoạn prompt là tuỳ chọn
+  if (!prompt && !entry.camera) errors.prompt = t('validation.catalogPrompt');
+  else if (prompt.length > MAX_CATALOG_PROMPT) errors.prompt = t('validation.catalogPromptLength', { max: MAX_CATALOG_PROMPT });
+  return errors;
+};
+
+const referencedIds = (params: RenderParameters, angles: string[]): string[] => [
+  `roomType:${params.roomType}`,
+  `designStyle:${params.designStyle}`,
+  `lightingEnv:${params.lightingEnv}`,
+  ...angles.map(id => `cameraAngle:${id}`)
+];
+
+const customEntriesIn = (catalog: CatalogEntry[], ids: string[]): CatalogEntry[] => {
+  const used = new Set(ids);
+  return catalog.filter(e => !e.builtIn && used.has(`${e.kind}:${e.id}`));
+};
+
+/** Custom entries a collection refers to, so a project bundle can carry them along. */
+export const usedCustomEntries = (collection: Collection, catalog: CatalogEntry[]): CatalogEntry[] =>
+  customEntriesIn(catalog, [
+    ...referencedIds(collection.parameters, []),
+    ...referencedIds(collection.stagingParameters, [...collection.stagingParameters.viewpoints, ...collection.stagedScenes.map(scene => scene.angle)])
+  ]);
+
+/** Custom entries the presets refer to, so a preset file can carry them along. */
+export const presetCustomEntries = (presets: StylePreset[], catalog: CatalogEntry[]): CatalogEntry[] =>
+  customEntriesIn(catalog, presets.flatMap(p => referencedIds(p.stagingParameters, p.stagingParameters.viewpoints)));
+
+/**
+ * Reads catalog entries embedded in a project bundle or preset file. Invalid
+ * entries are skipped; parameters pointing at them show the same error as a deleted entry.
+ * Entries keep their ids, since the parameters refer to them by id.
+ */
+export const parseCatalogEntries = (value: unknown): CatalogEntry[] =>
+  (Array.isArray(value) ? value : [])
+    .filter((e): e is CatalogEntry => {
+      if (!e || typeof e !== 'object') return false;
+      const entry = e as Record<string, unknown>;
+      return typeof entry.id === 'string' &&
+        CATALOG_KINDS.includes(entry.kind as CatalogKind) &&
+        typeof entry.label === 'string' &&
+        typeof entry.prompt === 'string' &&
+        (entry.thumbnailUrl === undefined || (typeof entry.thumbnailUrl === 'string' && entry.thumbnailUrl.startsWith('data:image/'))) &&
+        (entry.spaceType === undefined || (entry.kind === 'roomType' && (entry.spaceType === 'Interior' || entry.spaceType === 'Exterior'))) &&
+        (entry.camera === undefined || (entry.kind === 'cameraAngle' && isCameraRig(entry.camera)));
+    })
+    .map(e => ({ ...e, builtIn: undefined, createdAt: typeof e.createdAt === 'number' ? e.createdAt : Date.now() }));
+
+export const loadCatalog = async (): Promise<CatalogEntry[]> => {
+  const records = await runRequest<unknown[]>(CATALOG_STORE, 'readonly', store => store.getAll());
+  const cache = new Map<Blob, string>();
+  return (records.map(r => hydrate(r, cache)) as CatalogEntry[]).sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveCatalogEntry = async (entry: CatalogEntry): Promise<void> => {
+  const record = await dehydrate(entry, new Map());
+  await runRequest(CATALOG_STORE, 'readwrite', store => store.put(record));
+};
+
+export const deleteCatalogEntry = async (id: string): Promise<void> => {
+  await runRequest(CATALOG_STORE, 'readwrite', store => store.delete(id));
+};
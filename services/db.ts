@@ -0,0 +1,79 @@
+const DB_NAME = 'lem-studio';
+const DB_VERSION = 4;
+
+export const PROJECT_STORE = 'projects';
+export const TEMPLATE_STORE = 'templates';
+export const PRESET_STORE = 'presets';
+export const CATALOG_STORE = 'catalog';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of [PROJECT_STORE, TEMPLATE_STORE, PRESET_STORE, CATALOG_STORE]) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const isMediaUrl = (value: string) => value.startsWith('blob:') || value.startsWith('data:');
+
+/**
+ * Walks a value and replaces every blob:/data: URL with the Blob it points to,
+ * so images survive a reload (object URLs die with the page).
+ */
+export const dehydrate = async (value: unknown, cache: Map<string, Promise<Blob>>): Promise<unknown> => {
+  if (typeof value === 'string' && isMediaUrl(value)) {
+    if (!cache.has(value)) cache.set(value, fetch(value).then(res => res.blob()));
+    return cache.get(value);
+  }
+  if (Array.isArray(value)) return Promise.all(value.map(v => dehydrate(v, cache)));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, v]) => [key, await dehydrate(v, cache)] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+export const hydrate = (value: unknown, cache: Map<Blob, string>): unknown => {
+  if (value instanceof Blob) {
+    if (!cache.has(value)) cache.set(value, URL.createObjectURL(value));
+    return cache.get(value);
+  }
+  if (Array.isArray(value)) return value.map(v => hydrate(v, cache));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, hydrate(v, cache)]));
+  }
+  return value;
+};
@@ -0,0 +1,32 @@
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Tên file an toàn: bỏ dấu tiếng Việt và ký tự đặc biệt
+export const slugify = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[đĐ]/g, 'd')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase() || 'untitled';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+/** Downloads an image URL as-is (no re-encoding), picking the extension from its real type. */
+export const downloadImage = async (url: string, baseName: string) => {
+  const blob = await fetch(url).then(res => res.blob());
+  downloadBlob(blob, `${baseName}.${EXTENSIONS[blob.type] ?? 'png'}`);
+};
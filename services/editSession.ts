@@ -0,0 +1,74 @@
+import { OutputResolution } from "../types";
+import { RenderResult } from "./renderProvider";
+
+export interface EditStep {
+  id: string;
+  parentId?: string; // Không có nghĩa là sửa trực tiếp từ ảnh gốc
+  instruction: string;
+  masked: boolean;
+  imageUrl: string;
+  prompt: string;
+  imageSize: OutputResolution;
+  createdAt: number;
+}
+
+/**
+ * Edits made on one image while the editor is open. Steps form a tree: editing
+ * from an earlier step starts a new branch instead of discarding later ones.
+ */
+export interface EditSession {
+  baseUrl: string;
+  steps: EditStep[];
+  currentId?: string; // Không có nghĩa là đang ở ảnh gốc
+  redoIds: string[]; // Các bước vừa undo, bước gần nhất ở cuối
+}
+
+export const createSession = (baseUrl: string): EditSession => ({ baseUrl, steps: [], redoIds: [] });
+
+export const findStep = (session: EditSession, id?: string) => session.steps.find(s => s.id === id);
+
+export const currentImage = (session: EditSession): string => findStep(session, session.currentId)?.imageUrl ?? session.baseUrl;
+
+/** Steps from the original image to `id`, oldest first. */
+export const pathTo = (session: EditSession, id?: string): EditStep[] => {
+  const path: EditStep[] = [];
+  for (let step = findStep(session, id); step; step = findStep(session, step.parentId)) path.unshift(step);
+  return path;
+};
+
+export const depthOf = (session: EditSession, id: string) => pathTo(session, id).length - 1;
+
+export const addStep = (session: EditSession, instruction: string, masked: boolean, result: RenderResult): EditSession => {
+  const step: EditStep = {
+    id: Math.random().toString(36).substr(2, 9),
+    parentId: session.currentId,
+    instruction,
+    masked,
+    imageUrl: result.imageUrl,
+    prompt: result.prompt,
+    imageSize: result.imageSize,
+    createdAt: Date.now()
+  };
+  return { ...session, steps: [...session.steps, step], currentId: step.id, redoIds: [] };
+};
+
+export const canUndo = (session: EditSession) => !!session.currentId;
+export const canRedo = (session: EditSession) => session.redoIds.length > 0;
+
+export const undo = (session: EditSession): EditSession => {
+  const current = findStep(session, session.currentId);
+  if (!current) return session;
+  return { ...session, currentId: current.parentId, redoIds: [...session.redoIds, current.id] };
+};
+
+export const redo = (session: EditSession): EditSession => {
+  if (!canRedo(session)) return session;
+  return { ...session, currentId: session.redoIds[session.redoIds.length - 1], redoIds: session.redoIds.slice(0, -1) };
+};
+
+/** Moves to any step (or the original with undefined); the next edit branches from there. */
+export const jumpTo = (session: EditSession, id?: string): EditSession => ({ ...session, currentId: id, redoIds: [] });
+
+/** Prompt recorded on the committed version: every instruction that led to the step. */
+export const sessionPrompt = (session: EditSession, id?: string): string =>
+  pathTo(session, id).map(step => step.prompt).join('\n---\n');
@@ -0,0 +1,174 @@
+import { CatalogEntry, Collection, RenderParameters, RenderVersion, InputStatus } from "../types";
+import { catalogLabel } from "./catalog";
+import { encodeImage } from "./imageUtils";
+import { finalVersion } from "./versions";
+import { slugify } from "./download";
+import { createZip, ZipEntry } from "./zip";
+
+export type ExportFormat = 'jpeg' | 'png' | 'webp';
+export type ManifestFormat = 'json' | 'csv' | 'both';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  quality: number; // 0–1, bỏ qua với PNG
+  manifest: ManifestFormat;
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = ['jpeg', 'png', 'webp'];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = { format: 'jpeg', quality: 0.92, manifest: 'both' };
+
+const FORMAT_INFO: Record<ExportFormat, { mimeType: string; extension: string }> = {
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+  png: { mimeType: 'image/png', extension: 'png' },
+  webp: { mimeType: 'image/webp', extension: 'webp' }
+};
+
+export interface ManifestFile {
+  path: string;
+  kind: 'product' | 'scene';
+  sku: string;
+  productName: string;
+  viewType: string;
+  angle: string;
+  versionId: string;
+  source: RenderVersion['source'];
+  imageSize: string;
+  width: number;
+  height: number;
+  parameters: RenderParameters;
+  prompt: string;
+}
+
+interface PendingFile {
+  url: string;
+  folder: string;
+  name: string;
+  meta: Omit<ManifestFile, 'path' | 'width' | 'height'>;
+}
+
+const CSV_COLUMNS: (keyof ManifestFile | keyof RenderParameters)[] = [
+  'path', 'kind', 'sku', 'productName', 'viewType', 'angle', 'source', 'imageSize', 'width', 'height',
+  'roomType', 'designStyle', 'lightingEnv', 'lightingDirection', 'colorPalette', 'mood', 'prompt'
+];
+
+const csvCell = (value: unknown): string => {
+  const text = Array.isArray(value) ? value.join(' ') : String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const manifestToCsv = (files: ManifestFile[]): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...files.map(file => CSV_COLUMNS.map(column =>
+      csvCell(column in file ? file[column as keyof ManifestFile] : file.parameters[column as keyof RenderParameters])
+    ).join(','))
+  ].join('\r\n');
+
+/**
+ * Final renders of a collection, each with its place in the archive: project/SKU/view or project/scenes/angle.
+ * Scenes are named by the angle's label, since a custom angle's id is random.
+ */
+const collectFinals = (collection: Collection, catalog: CatalogEntry[] = []): PendingFile[] => {
+  const files: PendingFile[] = [];
+  collection.images.forEach(img => {
+    const version = finalVersion(img);
+    if (!img.renderedUrl || !version || img.inputStatus === InputStatus.REMOVED) return;
+    const product = collection.products.find(p => p.id === img.productId);
+    files.push({
+      url: img.renderedUrl,
+      folder: slugify(product?.sku ?? 'unassigned'),
+      name: slugify(img.viewType),
+      meta: {
+        kind: 'product',
+        sku: product?.sku ?? '',
+        productName: product?.name ?? '',
+        viewType: img.viewType,
+        angle: '',
+        versionId: version.id,
+        source: version.source,
+        imageSize: version.imageSize ?? '1K',
+        parameters: version.parameters,
+        prompt: version.prompt
+      }
+    });
+  });
+  collection.stagedScenes.forEach(scene => {
+    const version = finalVersion(scene);
+    if (!scene.renderedUrl || !version) return;
+    const skus = scene.productIds
+      .map(id => collection.products.find(p => p.id === collection.images.find(img => img.id === id)?.productId)?.sku)
+      .filter((sku): sku is string => !!sku);
+    const angle = catalogLabel(catalog, 'cameraAngle', scene.angle);
+    files.push({
+      url: scene.renderedUrl,
+      folder: 'scenes',
+      name: slugify(angle),
+      meta: {
+        kind: 'scene',
+        sku: skus.join(' '),
+        productName: '',
+        viewType: '',
+        angle,
+        versionId: version.id,
+        source: version.source,
+        imageSize: version.imageSize ?? '1K',
+        parameters: version.parameters,
+        prompt: version.prompt
+      }
+    });
+  });
+  return files;
+};
+
+export const countExportable = (collection: Collection): number => collectFinals(collection).length;
+
+/**
+ * Packages every final render of a collection into a ZIP with a manifest of
+ * parameters and prompts. `onProgress` is called after each encoded image.
+ */
+export const exportCollection = async (
+  collection: Collection,
+  catalog: CatalogEntry[],
+  options: ExportOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const { mimeType, extension } = FORMAT_INFO[options.format];
+  const root = slugify(collection.name);
+  const pending = collectFinals(collection, catalog);
+  const used = new Set<string>();
+  const entries: ZipEntry[] = [];
+  const manifest: ManifestFile[] = [];
+
+  for (let i = 0; i < pending.length; i++) {
+    const file = pending[i];
+    // Cùng SKU và góc chụp thì đánh số để không ghi đè nhau
+    let path = `${root}/${file.folder}/${file.name}.${extension}`;
+    for (let n = 2; used.has(path); n++) path = `${root}/${file.folder}/${file.name}-${n}.${extension}`;
+    used.add(path);
+
+    const { blob, width, height } = await encodeImage(file.url, mimeType, options.quality);
+    entries.push({ path, data: new Uint8Array(await blob.arrayBuffer()) });
+    manifest.push({ ...file.meta, path, width, height });
+    onProgress?.(i + 1, pending.length);
+  }
+
+  const encoder = new TextEncoder();
+  if (options.manifest !== 'csv') {
+    const json = {
+      format: 'lem-studio-export',
+      version: 1,
+      project: collection.name,
+      client: collection.metadata.client,
+      exportedAt: new Date().toISOString(),
+      imageFormat: options.format,
+      quality: options.format === 'png' ? null : options.quality,
+      files: manifest
+    };
+    entries.push({ path: `${root}/manifest.json`, data: encoder.encode(JSON.stringify(json, null, 2)) });
+  }
+  if (options.manifest !== 'json') {
+    entries.push({ path: `${root}/manifest.csv`, data: encoder.encode(manifestToCsv(manifest)) });
+  }
+  return createZip(entries);
+};
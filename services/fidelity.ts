@@ -0,0 +1,167 @@
+import { FidelityReport, FidelitySettings, RenderVersion } from "../types";
+import { Raster, Rect, loadImage, pixelAt, colorDistance, borderColor, contentBounds } from "./imageUtils";
+import { RenderResult } from "./renderProvider";
+
+export const DEFAULT_FIDELITY: FidelitySettings = {
+  enabled: true,
+  threshold: 0.55,
+  autoRerender: false,
+  maxAttempts: 2
+};
+
+export const MAX_FIDELITY_ATTEMPTS = 4;
+
+const PATCH = 32; // Cạnh lưới mẫu dùng để so cấu trúc và màu
+const SEARCH_SIDE = 160; // Ảnh render được thu nhỏ về cỡ này trước khi dò vùng sản phẩm
+const BACKGROUND_DISTANCE = 48; // Khác màu nền hơn mức này thì tính là sản phẩm
+const HISTOGRAM_BINS = 4; // Số bin mỗi kênh màu
+
+// Mẫu của sản phẩm trên lưới PATCH×PATCH; mask đánh dấu ô thuộc sản phẩm, không phải nền
+interface Patch {
+  gray: Float32Array;
+  rgb: Uint8ClampedArray;
+  mask: Uint8Array;
+}
+
+const rasterize = async (url: string, maxSide: number): Promise<Raster> => {
+  const img = await loadImage(url);
+  const scale = Math.min(1, maxSide / Math.max(img.width, img.height));
+  const width = Math.max(1, Math.round(img.width * scale));
+  const height = Math.max(1, Math.round(img.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  // Nền trong suốt của ảnh gốc được coi như nền trắng
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return { data: ctx.getImageData(0, 0, width, height).data, width, height };
+};
+
+const samplePatch = (raster: Raster, rect: Rect, background?: number[]): Patch => {
+  const gray = new Float32Array(PATCH * PATCH);
+  const rgb = new Uint8ClampedArray(PATCH * PATCH * 3);
+  const mask = new Uint8Array(PATCH * PATCH);
+  for (let py = 0; py < PATCH; py++) {
+    for (let px = 0; px < PATCH; px++) {
+      const color = pixelAt(raster, rect.x + (px + 0.5) * rect.width / PATCH, rect.y + (py + 0.5) * rect.height / PATCH);
+      const i = py * PATCH + px;
+      gray[i] = 0.299 * color[0] + 0.587 * color[1] + 0.114 * color[2];
+      rgb.set(color, i * 3);
+      mask[i] = !background || colorDistance(color, background) > BACKGROUND_DISTANCE ? 1 : 0;
+    }
+  }
+  return { gray, rgb, mask };
+};
+
+// SSIM một cửa sổ, chỉ tính trên các ô thuộc sản phẩm để nền mới của ảnh render không làm lệch điểm
+const structuralSimilarity = (a: Float32Array, b: Float32Array, mask: Uint8Array): number => {
+  let n = 0, meanA = 0, meanB = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    n++;
+    meanA += a[i];
+    meanB += b[i];
+  }
+  if (n < 2) return 0;
+  meanA /= n;
+  meanB /= n;
+  let varA = 0, varB = 0, cov = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    varA += (a[i] - meanA) ** 2;
+    varB += (b[i] - meanB) ** 2;
+    cov += (a[i] - meanA) * (b[i] - meanB);
+  }
+  varA /= n - 1;
+  varB /= n - 1;
+  cov /= n - 1;
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  return ((2 * meanA * meanB + c1) * (2 * cov + c2)) / ((meanA ** 2 + meanB ** 2 + c1) * (varA + varB + c2));
+};
+
+const histogram = (rgb: Uint8ClampedArray, mask: Uint8Array): Float32Array => {
+  const bins = new Float32Array(HISTOGRAM_BINS ** 3);
+  const step = 256 / HISTOGRAM_BINS;
+  let total = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    const [r, g, b] = [rgb[i * 3], rgb[i * 3 + 1], rgb[i * 3 + 2]].map(v => Math.floor(v / step));
+    bins[(r * HISTOGRAM_BINS + g) * HISTOGRAM_BINS + b]++;
+    total++;
+  }
+  return total ? bins.map(v => v / total) : bins;
+};
+
+// Giao của hai histogram đã chuẩn hoá: 1 là trùng khớp hoàn toàn
+const histogramIntersection = (a: Float32Array, b: Float32Array) =>
+  a.reduce((sum, v, i) => sum + Math.min(v, b[i]), 0);
+
+/**
+ * Looks for the window of the render that best matches the product photo. The
+ * product may be anywhere and at any size in a staged room, so windows with the
+ * product's aspect ratio are tried at several scales and positions.
+ */
+const bestMatch = (source: Patch, sourceAspect: number, render: Raster): { structure: number; color: number } => {
+  let best = { structure: -1, color: 0, patch: source };
+  for (const scale of [1, 0.8, 0.65, 0.5, 0.35, 0.25]) {
+    const height = Math.min(render.height, render.width / sourceAspect) * scale;
+    const width = height * sourceAspect;
+    const stride = Math.max(1, Math.min(width, height) / 6);
+    for (let y = 0; y + height <= render.height + 0.5; y += stride) {
+      for (let x = 0; x + width <= render.width + 0.5; x += stride) {
+        const patch = samplePatch(render, { x, y, width, height });
+        const structure = structuralSimilarity(source.gray, patch.gray, source.mask);
+        if (structure > best.structure) best = { structure, color: 0, patch };
+      }
+    }
+  }
+  const color = histogramIntersection(histogram(source.rgb, source.mask), histogram(best.patch.rgb, source.mask));
+  return { structure: Math.max(0, best.structure), color };
+};
+
+/**
+ * Compares each source photo with the render and reports the weakest match, so
+ * one altered product in a staged room is enough to flag the whole scene.
+ */
+export const checkFidelity = async (sourceUrls: string[], renderUrl: string): Promise<FidelityReport> => {
+  const render = await rasterize(renderUrl, SEARCH_SIDE);
+  const matches = await Promise.all(sourceUrls.map(async url => {
+    const raster = await rasterize(url, 256);
+    const background = borderColor(raster);
+    const bounds = contentBounds(raster, (x, y) => colorDistance(pixelAt(raster, x, y), background) > BACKGROUND_DISTANCE);
+    return bestMatch(samplePatch(raster, bounds, background), bounds.width / bounds.height, render);
+  }));
+  const scored = matches.map(m => ({ ...m, score: (m.color + m.structure) / 2 }));
+  const worst = scored.reduce((a, b) => b.score < a.score ? b : a);
+  return { score: worst.score, color: worst.color, structure: worst.structure, checkedAt: Date.now() };
+};
+
+export const isLowFidelity = (version: RenderVersion | undefined, settings: FidelitySettings) =>
+  settings.enabled && !!version?.fidelity && version.fidelity.score < settings.threshold;
+
+/**
+ * Renders, checks the result and, when auto re-render is on, tries again while
+ * the score stays below the threshold. The best attempt is returned either way.
+ * A check that cannot run (e.g. a cross-origin image) never fails the render.
+ */
+export const renderWithFidelity = async (
+  render: () => Promise<RenderResult>,
+  sourceUrls: string[],
+  settings: FidelitySettings
+): Promise<{ result: RenderResult; fidelity?: FidelityReport }> => {
+  const attempts = settings.enabled && settings.autoRerender ? Math.max(1, settings.maxAttempts) : 1;
+  let best: { result: RenderResult; fidelity: FidelityReport } | undefined;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const result = await render();
+    if (!settings.enabled || sourceUrls.length === 0) return { result };
+    const fidelity = await checkFidelity(sourceUrls, result.imageUrl).catch(() => undefined);
+    if (!fidelity) return { result };
+    if (!best || fidelity.score > best.fidelity.score) best = { result, fidelity };
+    if (fidelity.score >= settings.threshold) break;
+  }
+  return best!;
+};
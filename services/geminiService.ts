@@ -1,189 +1,174 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { RenderParameters, ProductImage, StagingParameters, CameraAngle } from "../types";
+import { GoogleGenAI, GenerateContentResponse, ImageConfig, Part, FinishReason } from "@google/genai";
+import { OutputResolution, UsageOperation } from "../types";
+import { loadImage, processImage, cropToAspect, compositeMasked } from "./imageUtils";
+import { SUPPORTED_ASPECT_RATIOS, closestAspectRatio, parseAspectRatio } from "./output";
+import { buildProductPrompt, buildStagingPrompt, buildEditPrompt } from "./promptBuilder";
+import { delay } from "./renderQueue";
+import { t } from "./i18n";
+import { AuthError, InvalidInputError, NoImageError, RETRY_POLICY, SafetyBlockedError, toRenderError } from "./renderErrors";
+import { UsageListener, meterUsage } from "./usage";
+import { RenderProvider, ProductRenderRequest, StagingRequest, EditRequest, UpscaleRequest, RenderResult } from "./renderProvider";
 
-export class GeminiService {
-  private readonly MODEL_NAME = 'gemini-3-pro-image-preview';
-  private readonly MAX_RETRIES = 2;
-  private readonly INITIAL_RETRY_DELAY = 3000;
+const SAFETY_FINISH_REASONS: FinishReason[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT
+];
+
+interface FrameConfig {
+  aspectRatio?: string; // Bất kỳ "W:H" nào; tỉ lệ mô hình không hỗ trợ sẽ được cắt lại
+  imageSize: OutputResolution;
+}
+
+interface CallContext {
+  operation: UsageOperation;
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+}
+
+export class GeminiService implements RenderProvider {
+  public readonly id = 'gemini';
+
+  constructor(private readonly modelName = 'gemini-3-pro-image-preview') {}
 
   private getApiKey(): string {
     const key = process.env.API_KEY;
     if (!key || key === "undefined") {
-      throw new Error("API_KEY_MISSING");
+      throw new AuthError({ cause: new Error("API_KEY_MISSING") });
     }
     return key;
   }
 
-  private async processImage(url: string, maxWidth = 1024): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.crossOrigin = "anonymous";
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        let width = img.width;
-        let height = img.height;
-        if (width > maxWidth) {
-          height = (maxWidth / width) * height;
-          width = maxWidth;
-        }
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return reject("Could not get canvas context");
-        ctx.drawImage(img, 0, 0, width, height);
-        const base64 = canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
-        resolve(base64);
-      };
-      img.onerror = () => reject("Không thể xử lý hình ảnh.");
-      img.src = url;
-    });
-  }
-
-  private async callWithRetry(fn: () => Promise<GenerateContentResponse>): Promise<GenerateContentResponse> {
-    let lastError: any;
-    for (let i = 0; i <= this.MAX_RETRIES; i++) {
+  // Thử lại theo RETRY_POLICY của từng loại lỗi; lỗi ném ra ngoài luôn là RenderError
+  private async callWithRetry<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
       try {
         return await fn();
-      } catch (error: any) {
-        lastError = error;
-        // Nếu lỗi quota hoặc 429, đợi và thử lại (trừ khi là limit 0 hẳn)
-        if (error?.status === 429 && i < this.MAX_RETRIES) {
-          const delay = this.INITIAL_RETRY_DELAY * Math.pow(2, i);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
-        throw error;
+      } catch (error) {
+        // Huỷ thì ném nguyên lỗi abort để hàng đợi nhận ra đây là huỷ, không phải lỗi
+        if (signal?.aborted) throw error;
+        const renderError = toRenderError(error);
+        const policy = RETRY_POLICY[renderError.kind];
+        if (attempt >= policy.retries) throw renderError;
+        await delay(policy.delayMs * Math.pow(2, attempt), signal);
       }
     }
-    throw lastError;
   }
 
-  public async renderProduct(
-    product: ProductImage,
-    params: RenderParameters,
-    referenceImage?: string
-  ): Promise<string | undefined> {
-    const ai = new GoogleGenAI({ apiKey: this.getApiKey() });
-    const productBase64 = await this.processImage(product.originalUrl);
-    
-    const systemPrompt = `
-      Professional CGI Furniture Rendering.
-      Task: Create a high-end catalog image.
-      Product View: ${product.viewType}.
-      Environment: ${params.roomType}.
-      Design Style: ${params.designStyle}.
-      Lighting: ${params.lightingEnv}, ${params.lightingDirection} source.
-      Mood: ${params.mood}.
-      Instructions: Place the product in the center of the scene. Ensure physics-accurate shadows, realistic texture mapping, and professional photographic composition.
-      ${referenceImage ? "CRITICAL: Emulate the lighting, color grading, and material quality from the provided MOOD BOARD image exactly." : ""}
-    `.trim();
-
-    const parts: any[] = [
-      { inlineData: { mimeType: 'image/jpeg', data: productBase64 } }
-    ];
-
-    if (referenceImage) {
-      const refBase64 = await this.processImage(referenceImage);
-      parts.push({ inlineData: { mimeType: 'image/jpeg', data: refBase64 } });
+  // Lấy ảnh từ phản hồi; bị bộ lọc chặn hoặc chỉ có chữ thì báo lỗi tương ứng thay vì trả về rỗng
+  private extractImage(response: GenerateContentResponse): { data: string; mimeType: string } {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) throw new SafetyBlockedError(blockReason);
+    const candidate = response.candidates?.[0];
+    for (const part of candidate?.content?.parts || []) {
+      if (part.inlineData?.data) return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' };
     }
+    if (candidate?.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+      throw new SafetyBlockedError(candidate.finishReason);
+    }
+    throw new NoImageError({ cause: new Error(response.text || candidate?.finishReason || 'empty response') });
+  }
 
-    parts.push({ text: systemPrompt });
-
-    try {
-      const result = await this.callWithRetry(() => 
-        ai.models.generateContent({
-          model: this.MODEL_NAME,
-          contents: { parts },
-          config: {
-            imageConfig: {
-              aspectRatio: "1:1",
-              imageSize: "1K"
-            }
-          }
-        })
-      );
-      for (const part of result.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) return `data:image/jpeg;base64,${part.inlineData.data}`;
-      }
-    } catch (error) { throw error; }
-    return undefined;
+  private async generateImage(prompt: string, imageParts: Part[], { aspectRatio, imageSize }: FrameConfig, { operation, signal, onUsage }: CallContext): Promise<RenderResult> {
+    const ratio = aspectRatio ? parseAspectRatio(aspectRatio) : null;
+    const needsCrop = !!aspectRatio && ratio !== null && !SUPPORTED_ASPECT_RATIOS.includes(aspectRatio);
+    const imageConfig: ImageConfig = {
+      aspectRatio: needsCrop ? closestAspectRatio(ratio!) : aspectRatio,
+      imageSize
+    };
+
+    const info = { operation, provider: this.id, model: this.modelName, imageSize };
+    const image = await meterUsage(info, { signal, onUsage }, counters => this.callWithRetry(async () => {
+      // Tạo client mới cho mỗi lần gọi để luôn dùng API key vừa được chọn
+      const ai = new GoogleGenAI({ apiKey: this.getApiKey() });
+      counters.attempts++;
+      const response = await ai.models.generateContent({
+        model: this.modelName,
+        contents: { parts: [...imageParts, { text: prompt }] },
+        config: { imageConfig, abortSignal: signal }
+      });
+      // Lần thử bị chặn hoặc không có ảnh vẫn tốn token nên cộng dồn trước khi kiểm tra
+      counters.promptTokens += response.usageMetadata?.promptTokenCount ?? 0;
+      counters.outputTokens += response.usageMetadata?.candidatesTokenCount ?? 0;
+      counters.totalTokens += response.usageMetadata?.totalTokenCount ?? 0;
+      return this.extractImage(response);
+    }, signal));
+    const imageUrl = `data:${image.mimeType};base64,${image.data}`;
+    return { imageUrl: needsCrop ? await cropToAspect(imageUrl, ratio!) : imageUrl, prompt, imageSize };
   }
 
-  public async stageRoom(
-    products: ProductImage[],
-    params: StagingParameters,
-    angle: CameraAngle,
-    referenceImage?: string,
-    masterShotUrl?: string
-  ): Promise<string | undefined> {
-    const ai = new GoogleGenAI({ apiKey: this.getApiKey() });
-    const productParts = await Promise.all(products.map(async (p) => {
-      const base64 = await this.processImage(p.originalUrl, 800);
-      return { inlineData: { mimeType: 'image/jpeg', data: base64 } };
-    }));
-
-    const systemPrompt = `
-      Full Scene Professional Interior CGI.
-      Atmosphere: ${params.mood}. Style: ${params.designStyle}. Lighting: ${params.lightingEnv}.
-      Camera Perspective: ${angle}.
-      Goal: Arrange all provided furniture items into a cohesive, aesthetically perfect interior design. 
-      Maintain consistent materials and lighting across the entire collection.
-    `.trim();
-
-    const parts: any[] = [];
-    if (masterShotUrl) {
-      const masterBase64 = await this.processImage(masterShotUrl);
-      parts.push({ inlineData: { mimeType: 'image/jpeg', data: masterBase64 } });
-    } else if (referenceImage) {
-      const refBase64 = await this.processImage(referenceImage);
-      parts.push({ inlineData: { mimeType: 'image/jpeg', data: refBase64 } });
-    }
+  private async toInlinePart(url: string, maxWidth?: number): Promise<Part> {
+    const data = await processImage(url, maxWidth).catch(cause => {
+      throw new InvalidInputError(t('error.unreadableInput'), { cause });
+    });
+    return { inlineData: { mimeType: 'image/jpeg', data } };
+  }
 
+  // Ảnh nguồn hỏng phải báo lỗi đầu vào, không phải lỗi chung, để hàng đợi không thử lại vô ích
+  private loadSource(url: string): Promise<HTMLImageElement> {
+    return loadImage(url).catch(cause => {
+      throw new InvalidInputError(t('error.unreadableInput'), { cause });
+    });
+  }
+
+  public async renderProduct({ product, referenceViews = [], params, moodBoard = [], template, profile, catalog, signal, onUsage }: ProductRenderRequest): Promise<RenderResult> {
+    const systemPrompt = buildProductPrompt(product, params, moodBoard.map(m => m.role), template, referenceViews, profile, catalog);
+
+    const parts: Part[] = [await this.toInlinePart(product.originalUrl)];
+    parts.push(...await Promise.all(referenceViews.map(v => this.toInlinePart(v.originalUrl, 800))));
+    parts.push(...await Promise.all(moodBoard.map(m => this.toInlinePart(m.url, 800))));
+
+    return this.generateImage(systemPrompt, parts, {
+      aspectRatio: profile?.aspectRatio ?? "1:1",
+      imageSize: profile?.resolution ?? "1K"
+    }, { operation: 'product', signal, onUsage });
+  }
+
+  public async stageRoom({ products, referenceViews = [], params, angle, moodBoard = [], masterShotUrl, template, profile, catalog, signal, onUsage }: StagingRequest): Promise<RenderResult> {
+    const productParts = await Promise.all([...products, ...referenceViews].map(p => this.toInlinePart(p.originalUrl, 800)));
+
+    const systemPrompt = buildStagingPrompt(params, angle, {
+      moodBoard: moodBoard.map(m => m.role),
+      hasMasterShot: !!masterShotUrl,
+      referenceViews: referenceViews.map(v => v.viewType),
+      profile,
+      catalog
+    }, template);
+
+    // Thứ tự ảnh khớp với prompt: master shot đầu tiên, mood board sau cùng
+    const parts: Part[] = [];
+    if (masterShotUrl) parts.push(await this.toInlinePart(masterShotUrl));
     parts.push(...productParts);
-    parts.push({ text: systemPrompt });
-
-    try {
-      const result = await this.callWithRetry(() => 
-        ai.models.generateContent({
-          model: this.MODEL_NAME,
-          contents: { parts },
-          config: {
-            imageConfig: {
-              aspectRatio: angle === CameraAngle.WIDE ? "16:9" : "4:3",
-              imageSize: "1K"
-            }
-          }
-        })
-      );
-      for (const part of result.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) return `data:image/jpeg;base64,${part.inlineData.data}`;
-      }
-    } catch (error) { throw error; }
-    return undefined;
+    parts.push(...await Promise.all(moodBoard.map(m => this.toInlinePart(m.url, 800))));
+
+    return this.generateImage(systemPrompt, parts, {
+      aspectRatio: profile.aspectRatio,
+      imageSize: profile.resolution
+    }, { operation: 'staging', signal, onUsage });
   }
 
-  public async editImage(imageUrl: string, prompt: string): Promise<string | undefined> {
-    const ai = new GoogleGenAI({ apiKey: this.getApiKey() });
-    const base64 = await this.processImage(imageUrl);
-    try {
-      const result = await this.callWithRetry(() => 
-        ai.models.generateContent({
-          model: this.MODEL_NAME,
-          contents: {
-            parts: [
-              { inlineData: { mimeType: 'image/jpeg', data: base64 } },
-              { text: `Apply professional CGI edit: ${prompt}. Maintain original objects and style.` }
-            ],
-          },
-          config: {
-            imageConfig: { imageSize: "1K" }
-          }
-        })
-      );
-      for (const part of result.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) return `data:image/jpeg;base64,${part.inlineData.data}`;
-      }
-    } catch (error) { throw error; }
-    return undefined;
+  public async editImage({ imageUrl, prompt, maskUrl, imageSize = '1K', signal, onUsage }: EditRequest): Promise<RenderResult> {
+    const source = await this.loadSource(imageUrl);
+    const parts: Part[] = [await this.toInlinePart(imageUrl)];
+    if (maskUrl) parts.push(await this.toInlinePart(maskUrl));
+    const result = await this.generateImage(buildEditPrompt(prompt, !!maskUrl), parts, {
+      aspectRatio: closestAspectRatio(source.width / source.height),
+      imageSize
+    }, { operation: 'edit', signal, onUsage });
+    // Mô hình có thể vẽ lại cả ảnh; chỉ lấy phần trong mặt nạ để vùng còn lại giữ nguyên
+    if (!maskUrl) return result;
+    return { ...result, imageUrl: await compositeMasked(imageUrl, result.imageUrl, maskUrl) };
+  }
+
+  public async upscaleImage({ imageUrl, imageSize, signal, onUsage }: UpscaleRequest): Promise<RenderResult> {
+    const source = await this.loadSource(imageUrl);
+    const prompt = "Upscale this render to a high-resolution final. Refine fine textures, material grain, edges and reflections. Keep composition, products, colors and lighting exactly identical; do not add, remove or move anything.";
+    return this.generateImage(prompt, [await this.toInlinePart(imageUrl, 2048)], {
+      aspectRatio: closestAspectRatio(source.width / source.height),
+      imageSize
+    }, { operation: 'upscale', signal, onUsage });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,47 @@
+import { en, MessageKey } from "../locales/en";
+import { vi } from "../locales/vi";
+
+export type Locale = 'vi' | 'en';
+
+export const LOCALES: Locale[] = ['vi', 'en'];
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  vi: 'Tiếng Việt',
+  en: 'English'
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { vi, en };
+
+const STORAGE_KEY = 'lem-studio-locale';
+
+const detectLocale = (): Locale => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved === 'vi' || saved === 'en') return saved;
+  return navigator.language.toLowerCase().startsWith('vi') ? 'vi' : 'en';
+};
+
+let current: Locale = detectLocale();
+
+export const getLocale = (): Locale => current;
+
+// App giữ ngôn ngữ trong state và render lại toàn bộ sau khi gọi hàm này
+export const setLocale = (locale: Locale) => {
+  current = locale;
+  localStorage.setItem(STORAGE_KEY, locale);
+};
+
+export type MessageVars = Record<string, string | number>;
+
+/** Message in the active locale; `{name}` placeholders are filled from `vars`. */
+export const t = (key: MessageKey, vars?: MessageVars): string => {
+  // Khoá dựng từ dữ liệu cũ có thể không tồn tại, khi đó hiện nguyên khoá thay vì undefined
+  const message = MESSAGES[current][key] ?? en[key] ?? key;
+  if (!vars) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in vars ? String(vars[name]) : match));
+};
+
+export const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(current);
+
+export const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString(current);
+
+export const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString(current);
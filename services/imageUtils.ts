@@ -0,0 +1,170 @@
+import { t } from "./i18n";
+
+export const loadImage = (url: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(t('error.imageLoad'));
+    img.src = url;
+  });
+};
+
+/**
+ * Downsizes an image to `maxWidth` and returns it as raw JPEG base64 (no data: prefix),
+ * which is what the model APIs expect for inline image parts.
+ */
+export const processImage = async (url: string, maxWidth = 1024): Promise<string> => {
+  const img = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  let width = img.width;
+  let height = img.height;
+  if (width > maxWidth) {
+    height = (maxWidth / width) * height;
+    width = maxWidth;
+  }
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  // JPEG không có alpha: phủ nền trắng để vùng trong suốt của PNG không thành màu đen
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', 0.8).split(',')[1];
+};
+
+export const urlToDataUrl = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const blob = await fetch(url).then(res => res.blob());
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/** Center-crops an image to the given width/height ratio and returns it as a JPEG data URL. */
+export const cropToAspect = async (url: string, ratio: number): Promise<string> => {
+  const img = await loadImage(url);
+  const width = Math.min(img.width, Math.round(img.height * ratio));
+  const height = Math.min(img.height, Math.round(img.width / ratio));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, (img.width - width) / 2, (img.height - height) / 2, width, height, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', 0.95);
+};
+
+/**
+ * Re-encodes an image in the given format. Formats without alpha get a white
+ * backdrop so transparent areas don't turn black.
+ */
+export const encodeImage = async (url: string, mimeType: string, quality = 0.92): Promise<{ blob: Blob; width: number; height: number }> => {
+  const img = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  if (mimeType === 'image/jpeg') {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(img, 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, quality));
+  if (!blob) throw new Error(t('error.imageEncode'));
+  return { blob, width: img.width, height: img.height };
+};
+
+/**
+ * Keeps `originalUrl` everywhere except where the mask is white, where `editedUrl`
+ * shows through. The mask edge is feathered slightly so the seam doesn't show.
+ */
+export const compositeMasked = async (originalUrl: string, editedUrl: string, maskUrl: string, feather = 4): Promise<string> => {
+  const [original, edited, mask] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl), loadImage(maskUrl)]);
+  const { width, height } = original;
+
+  // Chuyển độ sáng của mặt nạ thành kênh alpha
+  const alpha = document.createElement('canvas');
+  alpha.width = width;
+  alpha.height = height;
+  const alphaCtx = alpha.getContext('2d');
+  if (!alphaCtx) throw new Error("Could not get canvas context");
+  alphaCtx.filter = `blur(${feather}px)`;
+  alphaCtx.drawImage(mask, 0, 0, width, height);
+  const pixels = alphaCtx.getImageData(0, 0, width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    pixels.data[i + 3] = pixels.data[i];
+  }
+  alphaCtx.putImageData(pixels, 0, 0);
+
+  const patch = document.createElement('canvas');
+  patch.width = width;
+  patch.height = height;
+  const patchCtx = patch.getContext('2d');
+  if (!patchCtx) throw new Error("Could not get canvas context");
+  patchCtx.drawImage(edited, 0, 0, width, height);
+  patchCtx.globalCompositeOperation = 'destination-in';
+  patchCtx.drawImage(alpha, 0, 0);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(patch, 0, 0);
+  return canvas.toDataURL('image/jpeg', 0.95);
+};
+
+export interface Raster {
+  data: Uint8ClampedArray<ArrayBuffer>; // RGBA
+  width: number;
+  height: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const pixelAt = (raster: Raster, x: number, y: number): [number, number, number] => {
+  const i = (Math.min(raster.height - 1, Math.floor(y)) * raster.width + Math.min(raster.width - 1, Math.floor(x))) * 4;
+  return [raster.data[i], raster.data[i + 1], raster.data[i + 2]];
+};
+
+export const colorDistance = (a: number[], b: number[]) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+// Ảnh sản phẩm thường chụp trên nền đơn sắc: lấy trung vị màu viền làm màu nền
+export const borderColor = (raster: Raster): [number, number, number] => {
+  const samples: [number, number, number][] = [];
+  for (let x = 0; x < raster.width; x++) samples.push(pixelAt(raster, x, 0), pixelAt(raster, x, raster.height - 1));
+  for (let y = 0; y < raster.height; y++) samples.push(pixelAt(raster, 0, y), pixelAt(raster, raster.width - 1, y));
+  const median = (channel: number) => samples.map(s => s[channel]).sort((a, b) => a - b)[samples.length >> 1];
+  return [median(0), median(1), median(2)];
+};
+
+/** Bounding box of the pixels `isContent` accepts; the whole frame when nothing (or only a speck) stands out. */
+export const contentBounds = (raster: Raster, isContent: (x: number, y: number) => boolean): Rect => {
+  let minX = raster.width, minY = raster.height, maxX = -1, maxY = -1;
+  for (let y = 0; y < raster.height; y++) {
+    for (let x = 0; x < raster.width; x++) {
+      if (!isContent(x, y)) continue;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  const whole = { x: 0, y: 0, width: raster.width, height: raster.height };
+  if (maxX < 0) return whole;
+  const bounds = { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+  // Vùng quá nhỏ thường là nhiễu, không phải sản phẩm
+  return bounds.width * bounds.height < whole.width * whole.height * 0.02 ? whole : bounds;
+};
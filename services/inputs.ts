@@ -0,0 +1,70 @@
+import { Collection, InputStatus, ProductImage } from "../types";
+
+export type InputFilter = 'active' | InputStatus;
+
+export const INPUT_FILTERS: InputFilter[] = ['active', InputStatus.IMPORTED, InputStatus.CONFIRMED, InputStatus.REPLACED, InputStatus.REMOVED];
+
+/** Confirmed inputs and inputs whose source was replaced are the only ones sent to the renderer. */
+export const isRenderableInput = (img: ProductImage) =>
+  img.inputStatus === InputStatus.CONFIRMED || img.inputStatus === InputStatus.REPLACED;
+
+export const matchesInputFilter = (img: ProductImage, filter: InputFilter) =>
+  filter === 'active' ? img.inputStatus !== InputStatus.REMOVED : img.inputStatus === filter;
+
+const mapImage = (collection: Collection, id: string, fn: (img: ProductImage) => ProductImage): Collection => ({
+  ...collection,
+  images: collection.images.map(img => img.id === id ? fn(img) : img)
+});
+
+export const confirmInputs = (collection: Collection): Collection => ({
+  ...collection,
+  isConfirmed: true,
+  images: collection.images.map(img => img.inputStatus === InputStatus.IMPORTED ? { ...img, inputStatus: InputStatus.CONFIRMED } : img)
+});
+
+export const removeInput = (collection: Collection, id: string): Collection =>
+  mapImage(collection, id, img => img.inputStatus === InputStatus.REMOVED ? img : {
+    ...img,
+    inputStatus: InputStatus.REMOVED,
+    statusBeforeRemoval: img.inputStatus,
+    isSelected: false
+  });
+
+export const restoreInput = (collection: Collection, id: string): Collection =>
+  mapImage(collection, id, img => ({
+    ...img,
+    inputStatus: img.statusBeforeRemoval ?? InputStatus.IMPORTED,
+    statusBeforeRemoval: undefined
+  }));
+
+// Render làm từ ảnh cũ vẫn giữ trong lịch sử, nhưng ảnh sản phẩm và mọi cảnh có nó phải render lại
+const markRendersStale = (collection: Collection, id: string): Collection => ({
+  ...collection,
+  images: collection.images.map(img => img.id === id && img.renderStatus === 'completed' ? { ...img, renderStatus: 'pending' } : img),
+  stagedScenes: collection.stagedScenes.map(scene => scene.productIds.includes(id) && scene.status === 'completed' ? { ...scene, status: 'pending' } : scene)
+});
+
+/** Puts re-processed pixels into an input; its product render and scenes go back to pending. */
+export const updateInputPixels = (collection: Collection, id: string, input: Pick<ProductImage, 'originalUrl' | 'sourceUrl' | 'preprocess'>): Collection =>
+  markRendersStale(mapImage(collection, id, img => ({ ...img, ...input })), id);
+
+/**
+ * Swaps the source photo but keeps the id, so scene links and render history stay attached;
+ * the input and its scenes are queued for a fresh render. An input that was never confirmed stays unconfirmed.
+ */
+export const replaceInput = (collection: Collection, id: string, input: Pick<ProductImage, 'originalUrl' | 'sourceUrl' | 'preprocess'>): Collection => {
+  const replaced = markRendersStale(mapImage(collection, id, img => {
+    const previous = img.inputStatus === InputStatus.REMOVED ? img.statusBeforeRemoval : img.inputStatus;
+    return {
+      ...img,
+      ...input,
+      replacedUrls: [...(img.replacedUrls ?? []), img.sourceUrl ?? img.originalUrl],
+      inputStatus: isRenderableInput({ ...img, inputStatus: previous ?? InputStatus.IMPORTED }) ? InputStatus.REPLACED : InputStatus.IMPORTED,
+      statusBeforeRemoval: undefined,
+      renderStatus: 'pending'
+    };
+  }), id);
+  // Ảnh chưa xác nhận vẫn phải qua bước xác nhận như ảnh mới tải lên
+  const needsConfirm = replaced.images.some(img => img.id === id && img.inputStatus === InputStatus.IMPORTED);
+  return needsConfirm ? { ...replaced, isConfirmed: false } : replaced;
+};
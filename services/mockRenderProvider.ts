@@ -0,0 +1,124 @@
+import { OutputResolution, UsageOperation } from "../types";
+import { loadImage, compositeMasked } from "./imageUtils";
+import { RESOLUTION_PIXELS, frameSize } from "./output";
+import { buildProductPrompt, buildStagingPrompt, buildEditPrompt } from "./promptBuilder";
+import { delay } from "./renderQueue";
+import { UsageListener, meterUsage } from "./usage";
+import { InvalidInputError } from "./renderErrors";
+import { t } from "./i18n";
+import { RenderProvider, ProductRenderRequest, StagingRequest, EditRequest, UpscaleRequest, RenderResult } from "./renderProvider";
+
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+/**
+ * Offline provider that draws placeholder renders on a canvas. The same inputs
+ * always yield the same image, so UI and batch logic can be exercised without an API key.
+ */
+export class MockRenderProvider implements RenderProvider {
+  public readonly id = 'mock';
+
+  constructor(private readonly latencyMs = 600) {}
+
+  // Ghi sổ như provider thật (chi phí 0) để màn hình chi phí chạy được khi offline
+  private metered<T>(operation: UsageOperation, imageSize: OutputResolution, context: { signal?: AbortSignal; onUsage?: UsageListener }, run: () => Promise<T>): Promise<T> {
+    return meterUsage({ operation, provider: this.id, model: 'mock', imageSize }, context, counters => {
+      counters.attempts++;
+      return run();
+    });
+  }
+
+  private loadSource(url: string): Promise<HTMLImageElement> {
+    return loadImage(url).catch(cause => {
+      throw new InvalidInputError(t('error.unreadableInput'), { cause });
+    });
+  }
+
+  private async paint(width: number, height: number, seed: string, lines: string[], sourceUrls: string[], signal?: AbortSignal): Promise<string> {
+    await delay(this.latencyMs, signal);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context");
+
+    const hue = hashString(seed) % 360;
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 35%, 88%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 40) % 360}, 30%, 70%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    const images = await Promise.all(sourceUrls.map(url => loadImage(url).catch(() => null)));
+    const drawable = images.filter((img): img is HTMLImageElement => img !== null);
+    const slot = width / Math.max(drawable.length, 1);
+    drawable.forEach((img, i) => {
+      const scale = Math.min((slot * 0.8) / img.width, (height * 0.6) / img.height);
+      const w = img.width * scale;
+      const h = img.height * scale;
+      ctx.drawImage(img, slot * i + (slot - w) / 2, (height - h) / 2, w, h);
+    });
+
+    ctx.fillStyle = 'rgba(17, 24, 39, 0.75)';
+    ctx.font = `bold ${Math.round(height / 32)}px sans-serif`;
+    lines.forEach((line, i) => ctx.fillText(line, 24, 40 + i * (height / 24)));
+    return canvas.toDataURL('image/jpeg', 0.9);
+  }
+
+  public async renderProduct({ product, referenceViews = [], params, moodBoard = [], template, profile, catalog, signal, onUsage }: ProductRenderRequest): Promise<RenderResult> {
+    const prompt = buildProductPrompt(product, params, moodBoard.map(m => m.role), template, referenceViews, profile, catalog);
+    const lines = ['MOCK RENDER', `${params.roomType} · ${params.designStyle}`, params.lightingEnv];
+    const { width, height } = profile ? frameSize(profile) : { width: 1024, height: 1024 };
+    const imageSize = profile?.resolution ?? '1K';
+    return this.metered('product', imageSize, { signal, onUsage }, async () => {
+      const imageUrl = await this.paint(width, height, `${product.id}|${prompt}`, lines, [product.originalUrl], signal);
+      return { imageUrl, prompt, imageSize };
+    });
+  }
+
+  public async stageRoom({ products, referenceViews = [], params, angle, moodBoard = [], masterShotUrl, template, profile, catalog, signal, onUsage }: StagingRequest): Promise<RenderResult> {
+    const prompt = buildStagingPrompt(params, angle, {
+      moodBoard: moodBoard.map(m => m.role),
+      hasMasterShot: !!masterShotUrl,
+      referenceViews: referenceViews.map(v => v.viewType),
+      profile,
+      catalog
+    }, template);
+    const lines = ['MOCK STAGING', angle, `${params.roomType} · ${params.designStyle}`];
+    const { width, height } = frameSize(profile);
+    const seed = `${products.map(p => p.id).join(',')}|${prompt}`;
+    const imageSize = profile.resolution;
+    return this.metered('staging', imageSize, { signal, onUsage }, async () => {
+      const imageUrl = await this.paint(width, height, seed, lines, products.map(p => p.originalUrl), signal);
+      return { imageUrl, prompt, imageSize };
+    });
+  }
+
+  public async editImage({ imageUrl, prompt, maskUrl, imageSize = '1K', signal, onUsage }: EditRequest): Promise<RenderResult> {
+    const source = await this.loadSource(imageUrl);
+    const editPrompt = buildEditPrompt(prompt, !!maskUrl);
+    const painted = await this.metered('edit', imageSize, { signal, onUsage }, () =>
+      this.paint(source.width, source.height, prompt, ['MOCK EDIT', prompt.slice(0, 60)], [imageUrl], signal));
+    const result = maskUrl ? await compositeMasked(imageUrl, painted, maskUrl) : painted;
+    return { imageUrl: result, prompt: editPrompt, imageSize };
+  }
+
+  public async upscaleImage({ imageUrl, imageSize, signal, onUsage }: UpscaleRequest): Promise<RenderResult> {
+    await this.metered('upscale', imageSize, { signal, onUsage }, () => delay(this.latencyMs, signal));
+    const source = await this.loadSource(imageUrl);
+    const scale = RESOLUTION_PIXELS[imageSize] / Math.max(source.width, source.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(source.width * scale);
+    canvas.height = Math.round(source.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context");
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return { imageUrl: canvas.toDataURL('image/jpeg', 0.92), prompt: `MOCK UPSCALE ${imageSize}`, imageSize };
+  }
+}
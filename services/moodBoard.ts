@@ -0,0 +1,116 @@
+import { MoodBoardImage, MoodBoardRole } from "../types";
+import { loadImage, colorDistance } from "./imageUtils";
+import { MAX_PALETTE_SWATCHES } from "./parameters";
+
+export const MOOD_BOARD_ROLES: MoodBoardRole[] = ['general', 'lighting', 'material', 'color', 'layout'];
+
+export const MAX_MOOD_BOARD_IMAGES = 6;
+
+const PALETTE_SIZE = 5; // Số màu chủ đạo lấy từ mỗi ảnh
+const SAMPLE_SIDE = 64; // Ảnh được thu nhỏ về cỡ này trước khi gom cụm màu
+const MERGE_DISTANCE = 36; // Hai màu gần hơn mức này coi như trùng khi gộp bảng màu
+
+// Mỗi vai trò chỉ lấy đúng khía cạnh đó từ ảnh tham chiếu
+const ROLE_INSTRUCTIONS: Record<MoodBoardRole, string> = {
+  general: 'overall look: lighting, color grading and material quality',
+  lighting: 'lighting only: light direction, softness, contrast and color temperature; ignore its objects and colors',
+  material: 'materials only: surface finishes and textures of walls, floor and décor',
+  color: 'color only: color grading and palette; ignore its objects and layout',
+  layout: 'layout only: room composition and furniture placement; ignore its colors and materials'
+};
+
+export const createMoodBoardImage = (url: string, role: MoodBoardRole = 'general'): MoodBoardImage => ({
+  id: Math.random().toString(36).substr(2, 9),
+  url,
+  role
+});
+
+const toHex = (rgb: number[]) => '#' + rgb.map(v => Math.round(v).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+const fromHex = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+/**
+ * Dominant colors of an image, most common first. A small k-means over a
+ * thumbnail, seeded with farthest-point picks so the result is deterministic.
+ */
+export const extractPalette = async (url: string, count = PALETTE_SIZE): Promise<string[]> => {
+  const img = await loadImage(url);
+  const scale = Math.min(1, SAMPLE_SIDE / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.width * scale));
+  canvas.height = Math.max(1, Math.round(img.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const data = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+
+  const pixels: number[][] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] > 128) pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  if (pixels.length === 0) return [];
+
+  const mean = pixels.reduce((sum, p) => sum.map((v, c) => v + p[c]), [0, 0, 0]).map(v => v / pixels.length);
+  const centers = [mean];
+  while (centers.length < count) {
+    const farthest = pixels.reduce((best, p) => {
+      const d = Math.min(...centers.map(c => colorDistance(p, c)));
+      return d > best.d ? { p, d } : best;
+    }, { p: pixels[0], d: -1 });
+    if (farthest.d <= 0) break;
+    centers.push([...farthest.p]);
+  }
+
+  let assignment = new Array<number>(pixels.length).fill(0);
+  for (let iteration = 0; iteration < 8; iteration++) {
+    assignment = pixels.map(p => centers.reduce((best, c, i) => colorDistance(p, c) < colorDistance(p, centers[best]) ? i : best, 0));
+    centers.forEach((_, i) => {
+      const members = pixels.filter((_, j) => assignment[j] === i);
+      if (members.length) centers[i] = members.reduce((sum, p) => sum.map((v, c) => v + p[c]), [0, 0, 0]).map(v => v / members.length);
+    });
+  }
+
+  const sizes = centers.map((_, i) => assignment.filter(a => a === i).length);
+  return centers
+    .map((c, i) => ({ hex: toHex(c), size: sizes[i] }))
+    .filter(c => c.size > 0)
+    .sort((a, b) => b.size - a.size)
+    .map(c => c.hex);
+};
+
+/**
+ * Palette for the render parameters. Images tagged `color` lead; the others
+ * only fill remaining slots. Near-identical colors are merged.
+ */
+export const moodBoardPalette = (images: MoodBoardImage[]): string[] => {
+  const ordered = [...images.filter(i => i.role === 'color'), ...images.filter(i => i.role !== 'color')];
+  const palette: string[] = [];
+  for (const hex of ordered.flatMap(i => i.palette ?? [])) {
+    if (palette.length >= MAX_PALETTE_SWATCHES) break;
+    if (palette.every(p => colorDistance(fromHex(p), fromHex(hex)) > MERGE_DISTANCE)) palette.push(hex);
+  }
+  return palette;
+};
+
+/** Prompt lines for the references, which are always sent as the last images in this order. */
+export const moodBoardInstructions = (roles: MoodBoardRole[], hasMasterShot = false): string => {
+  if (roles.length === 0) return '';
+  const lines = roles.map((role, i) => `${i + 1}. ${ROLE_INSTRUCTIONS[role]}.`);
+  return [
+    `CRITICAL: The last ${roles.length} image${roles.length > 1 ? 's are MOOD BOARD references' : ' is a MOOD BOARD reference'}, in this order. Take from each only what its role says:`,
+    ...lines,
+    'Never copy objects from the references into the scene.',
+    hasMasterShot ? 'The MASTER SHOT takes precedence over the references for room layout and materials.' : ''
+  ].filter(Boolean).join('\n');
+};
+
+/** Data saved before mood boards held several images had one optional reference string. */
+export const migrateMoodBoard = (moodBoard: unknown, legacyReference?: unknown): MoodBoardImage[] => {
+  if (Array.isArray(moodBoard)) {
+    return moodBoard
+      .filter((m): m is MoodBoardImage => !!m && typeof m.url === 'string')
+      .map(m => ({ ...m, role: MOOD_BOARD_ROLES.includes(m.role) ? m.role : 'general' }));
+  }
+  const url = typeof moodBoard === 'string' ? moodBoard : legacyReference;
+  return typeof url === 'string' && url ? [createMoodBoardImage(url)] : [];
+};
@@ -0,0 +1,137 @@
+import { OutputProfile, OutputResolution, OutputSettings, RenderParameters } from "../types";
+import { t } from "./i18n";
+
+export const OUTPUT_RESOLUTIONS: OutputResolution[] = ['1K', '2K', '4K'];
+
+// Cạnh dài của ảnh theo từng mức độ phân giải
+export const RESOLUTION_PIXELS: Record<OutputResolution, number> = {
+  '1K': 1024,
+  '2K': 2048,
+  '4K': 4096
+};
+
+// Các tỉ lệ khung hình mà mô hình ảnh chấp nhận; tỉ lệ khác được cắt lại sau khi render
+export const SUPPORTED_ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
+
+export const BACKGROUND_RULES: OutputProfile['background'][] = ['scene', 'white', 'palette'];
+
+export const MAX_SAFE_MARGIN = 0.25;
+
+export const BUILT_IN_PROFILES: OutputProfile[] = [
+  { id: 'builtin-ecommerce', name: 'E-commerce', aspectRatio: '1:1', resolution: '2K', background: 'white', safeMargin: 0.05, builtIn: true },
+  { id: 'builtin-square', name: 'Square Scene', aspectRatio: '1:1', resolution: '1K', background: 'scene', safeMargin: 0.05, builtIn: true },
+  { id: 'builtin-instagram', name: 'Instagram Feed', aspectRatio: '4:5', resolution: '1K', background: 'scene', safeMargin: 0.08, builtIn: true },
+  { id: 'builtin-story', name: 'Story / Reels', aspectRatio: '9:16', resolution: '1K', background: 'scene', safeMargin: 0.14, builtIn: true },
+  { id: 'builtin-print', name: 'Print Catalog', aspectRatio: '3:2', resolution: '4K', background: 'scene', safeMargin: 0.05, builtIn: true },
+  { id: 'builtin-wide', name: 'Wide Hero', aspectRatio: '16:9', resolution: '1K', background: 'scene', safeMargin: 0.05, builtIn: true }
+];
+
+export const DEFAULT_OUTPUT: OutputSettings = {
+  productProfileId: 'builtin-square',
+  stagingProfileId: 'builtin-wide',
+  customProfiles: [],
+  finalResolution: '4K'
+};
+
+export const isBelow = (size: OutputResolution, target: OutputResolution) =>
+  OUTPUT_RESOLUTIONS.indexOf(size) < OUTPUT_RESOLUTIONS.indexOf(target);
+
+/** "W:H" → width / height, or null when the text is not a usable ratio. */
+export const parseAspectRatio = (ratio: string): number | null => {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*:\s*(\d+(?:\.\d+)?)\s*$/.exec(ratio);
+  if (!match) return null;
+  const value = Number(match[1]) / Number(match[2]);
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+export const closestAspectRatio = (value: number): string => {
+  const distance = (ratio: string) => Math.abs(Math.log(parseAspectRatio(ratio)! / value));
+  return SUPPORTED_ASPECT_RATIOS.reduce((best, ratio) => distance(ratio) < distance(best) ? ratio : best);
+};
+
+/** Pixel size of a frame: the long side follows the profile's resolution. */
+export const frameSize = (profile: OutputProfile): { width: number; height: number } => {
+  const ratio = parseAspectRatio(profile.aspectRatio) ?? 1;
+  const long = RESOLUTION_PIXELS[profile.resolution];
+  return ratio >= 1
+    ? { width: long, height: Math.round(long / ratio) }
+    : { width: Math.round(long * ratio), height: long };
+};
+
+export const allProfiles = (output: OutputSettings): OutputProfile[] => [...BUILT_IN_PROFILES, ...output.customProfiles];
+
+/** Profile by id, falling back to the collection default when a custom profile was deleted. */
+export const profileFor = (output: OutputSettings, id: string | undefined, kind: 'product' | 'staging'): OutputProfile => {
+  const profiles = allProfiles(output);
+  const fallbackId = kind === 'product' ? output.productProfileId : output.stagingProfileId;
+  return profiles.find(p => p.id === id)
+    ?? profiles.find(p => p.id === fallbackId)
+    ?? BUILT_IN_PROFILES.find(p => p.id === DEFAULT_OUTPUT[kind === 'product' ? 'productProfileId' : 'stagingProfileId'])!;
+};
+
+// Trước khi có profile, dự án chỉ lưu renderResolution; khung ảnh khi đó đi theo góc máy
+export type LegacyOutputSettings = Partial<OutputSettings> & { renderResolution?: OutputResolution };
+
+const LEGACY_FRAMES = { product: '1:1', staging: '4:3', wide: '16:9' } as const;
+
+/**
+ * Upgrades output settings saved before profiles existed into profiles that reproduce the old framing:
+ * 1:1 products, 4:3 scenes and 16:9 for the wide shot, at the old render resolution.
+ * `wideProfileId` is set only when the settings were migrated; wide scenes should use it as their override.
+ */
+export const migrateOutput = (output: LegacyOutputSettings | undefined): { output: OutputSettings; wideProfileId?: string } => {
+  if (output?.productProfileId && output.stagingProfileId) {
+    const { renderResolution, ...settings } = output;
+    return { output: { ...DEFAULT_OUTPUT, ...settings } };
+  }
+  const resolution = output?.renderResolution ?? '1K';
+  const customProfiles: OutputProfile[] = [...(output?.customProfiles ?? [])];
+  // Dùng lại profile có sẵn khi trùng khung, chỉ tạo profile riêng khi không có
+  const profileId = (frame: keyof typeof LEGACY_FRAMES): string => {
+    const aspectRatio = LEGACY_FRAMES[frame];
+    const match = [...BUILT_IN_PROFILES, ...customProfiles]
+      .find(p => p.aspectRatio === aspectRatio && p.resolution === resolution && p.background === 'scene');
+    if (match) return match.id;
+    const id = `legacy-${frame}-${resolution.toLowerCase()}`;
+    customProfiles.push({ id, name: t('output.legacyName', { ratio: aspectRatio, resolution }), aspectRatio, resolution, background: 'scene', safeMargin: 0 });
+    return id;
+  };
+  const productProfileId = profileId('product');
+  const stagingProfileId = profileId('staging');
+  const wideProfileId = profileId('wide');
+  return {
+    output: { productProfileId, stagingProfileId, customProfiles, finalResolution: output?.finalResolution ?? DEFAULT_OUTPUT.finalResolution },
+    wideProfileId
+  };
+};
+
+export type ProfileErrors = Partial<Record<'name' | 'aspectRatio' | 'safeMargin', string>>;
+
+export const validateProfile = (profile: OutputProfile): ProfileErrors => {
+  const errors: ProfileErrors = {};
+  if (!profile.name.trim()) errors.name = t('validation.profileName');
+  const ratio = parseAspectRatio(profile.aspectRatio);
+  if (ratio === null) {
+    errors.aspectRatio = t('validation.aspectFormat');
+  } else if (ratio < 1 / 4 || ratio > 4) {
+    errors.aspectRatio = t('validation.aspectRange');
+  }
+  if (!(profile.safeMargin >= 0 && profile.safeMargin <= MAX_SAFE_MARGIN)) {
+    errors.safeMargin = t('validation.safeMargin', { max: MAX_SAFE_MARGIN * 100 });
+  }
+  return errors;
+};
+
+/** Background instruction for the prompt; the palette rule uses the first swatch. */
+export const backgroundInstructions = (profile: OutputProfile, params: RenderParameters): string => {
+  switch (profile.background) {
+    case 'white':
+      return 'Background: seamless pure white (#FFFFFF) studio sweep with a soft grounded contact shadow. No room, walls or props behind the products.';
+    case 'palette':
+      return params.colorPalette.length > 0
+        ? `Background: seamless studio backdrop in ${params.colorPalette[0]} with a soft grounded contact shadow. No room, walls or props behind the products.`
+        : 'Background: seamless neutral studio backdrop with a soft grounded contact shadow.';
+    default:
+      return '';
+  }
+};
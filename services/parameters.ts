@@ -0,0 +1,91 @@
+import { RenderParameters, StagingParameters, CatalogEntry } from "../types";
+import { catalogLabel, findEntry } from "./catalog";
+import { t } from "./i18n";
+
+export const MAX_PALETTE_SWATCHES = 8;
+
+export const SPACE_TYPES: RenderParameters['spaceType'][] = ['Interior', 'Exterior'];
+export const LIGHTING_DIRECTIONS: RenderParameters['lightingDirection'][] = ['Front', 'Side', 'Back', 'Overhead'];
+export const LAYOUT_DENSITIES: StagingParameters['layoutDensity'][] = ['Minimal', 'Balanced', 'Spacious'];
+export const ARRANGEMENT_STYLES: StagingParameters['arrangementStyle'][] = ['Focal Point', 'Symmetrical', 'Organic'];
+
+export type ParameterErrors = Partial<Record<keyof StagingParameters, string>>;
+
+export const isHexColor = (value: string) => /^#[0-9a-f]{6}$/i.test(value);
+
+/** Palettes were free text before swatches existed; anything that is not a list of hex values is dropped. */
+export const normalizePalette = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && isHexColor(v)).map(v => v.toUpperCase()) : [];
+
+/** Camera angles used to carry a Vietnamese gloss in their value, e.g. 'Wide Shot (Toàn cảnh)'. */
+export const normalizeAngle = (value: string): string => value.replace(/\s*\(.*\)$/, '');
+
+/**
+ * Checks every field, so a hand-edited file cannot slip a null mood or an unknown option past import.
+ * The palette is left to `normalizePalette`, which also reads the old free-text form.
+ */
+export const isRenderParameters = (value: unknown): value is RenderParameters => {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return SPACE_TYPES.includes(v.spaceType as RenderParameters['spaceType']) &&
+    typeof v.roomType === 'string' &&
+    typeof v.designStyle === 'string' &&
+    typeof v.lightingEnv === 'string' &&
+    LIGHTING_DIRECTIONS.includes(v.lightingDirection as RenderParameters['lightingDirection']) &&
+    typeof v.mood === 'string' &&
+    typeof v.allowExternalItems === 'boolean';
+};
+
+export const isStagingParameters = (value: unknown): value is StagingParameters => {
+  if (!isRenderParameters(value)) return false;
+  const v = value as unknown as Record<string, unknown>;
+  return LAYOUT_DENSITIES.includes(v.layoutDensity as StagingParameters['layoutDensity']) &&
+    ARRANGEMENT_STYLES.includes(v.arrangementStyle as StagingParameters['arrangementStyle']) &&
+    Array.isArray(v.viewpoints) && v.viewpoints.every(id => typeof id === 'string');
+};
+
+export const normalizeStagingParameters = (params: StagingParameters): StagingParameters => ({
+  ...params,
+  colorPalette: normalizePalette(params.colorPalette),
+  viewpoints: params.viewpoints.map(normalizeAngle)
+});
+
+/** Catalog-backed fields must point at an entry that still exists in `catalog`. */
+export const validateParameters = (params: RenderParameters | StagingParameters, staging: boolean, catalog: CatalogEntry[]): ParameterErrors => {
+  const errors: ParameterErrors = {};
+
+  if (!SPACE_TYPES.includes(params.spaceType)) errors.spaceType = t('validation.spaceType');
+  const room = findEntry(catalog, 'roomType', params.roomType);
+  if (!room) {
+    errors.roomType = t('validation.roomType');
+  } else if (params.spaceType === 'Exterior' && room.spaceType !== 'Exterior') {
+    errors.roomType = t('validation.roomNotExterior', { room: catalogLabel(catalog, 'roomType', room.id) });
+  } else if (params.spaceType === 'Interior' && room.spaceType === 'Exterior') {
+    errors.roomType = t('validation.roomNotInterior', { room: catalogLabel(catalog, 'roomType', room.id) });
+  }
+  if (!findEntry(catalog, 'designStyle', params.designStyle)) errors.designStyle = t('validation.designStyle');
+  if (!findEntry(catalog, 'lightingEnv', params.lightingEnv)) errors.lightingEnv = t('validation.lightingEnv');
+  if (!LIGHTING_DIRECTIONS.includes(params.lightingDirection)) errors.lightingDirection = t('validation.lightingDirection');
+
+  if (params.colorPalette.length === 0) {
+    errors.colorPalette = t('validation.paletteEmpty');
+  } else if (params.colorPalette.length > MAX_PALETTE_SWATCHES) {
+    errors.colorPalette = t('validation.paletteMax', { max: MAX_PALETTE_SWATCHES });
+  } else if (!params.colorPalette.every(isHexColor)) {
+    errors.colorPalette = t('validation.paletteFormat');
+  }
+
+  const mood = params.mood.trim();
+  if (!mood) errors.mood = t('validation.moodEmpty');
+  else if (mood.length > 120) errors.mood = t('validation.moodLength', { max: 120 });
+
+  if (staging) {
+    const s = params as StagingParameters;
+    if (!LAYOUT_DENSITIES.includes(s.layoutDensity)) errors.layoutDensity = t('validation.layoutDensity');
+    if (!ARRANGEMENT_STYLES.includes(s.arrangementStyle)) errors.arrangementStyle = t('validation.arrangementStyle');
+    if (s.viewpoints.length === 0) errors.viewpoints = t('validation.viewpointsEmpty');
+    else if (!s.viewpoints.every(v => findEntry(catalog, 'cameraAngle', v))) errors.viewpoints = t('validation.viewpoints');
+  }
+
+  return errors;
+};
@@ -0,0 +1,146 @@
+import { PreprocessOptions, ProductImage } from "../types";
+import { Raster, borderColor, colorDistance, contentBounds, pixelAt } from "./imageUtils";
+import { t } from "./i18n";
+
+export const DEFAULT_PREPROCESS: PreprocessOptions = {
+  autoCrop: true,
+  removeBackground: false,
+  whiteBalance: true
+};
+
+const MAX_SIDE = 2048; // Ảnh tải lên lớn hơn được thu nhỏ, mô hình không cần hơn thế
+const BACKGROUND_TOLERANCE = 40; // Khoảng cách màu tối đa để một điểm ảnh còn được coi là nền
+const ALPHA_THRESHOLD = 16; // Alpha thấp hơn mức này là vùng trong suốt
+const CROP_PADDING = 0.06; // Lề chừa lại quanh sản phẩm khi tự cắt, theo cạnh dài
+const MAX_GAIN = 1.25; // Giới hạn hệ số cân bằng trắng để không làm lệch màu vật liệu
+
+const luminance = ([r, g, b]: number[]) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// Giải mã kèm xoay theo EXIF để ảnh chụp dọc từ điện thoại không bị nằm ngang
+const decode = async (url: string): Promise<Raster> => {
+  const blob = await fetch(url).then(res => res.blob());
+  const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return { data: ctx.getImageData(0, 0, width, height).data, width, height };
+};
+
+const hasTransparency = (raster: Raster) => {
+  for (let i = 3; i < raster.data.length; i += 4) {
+    if (raster.data[i] < 250) return true;
+  }
+  return false;
+};
+
+/**
+ * Scales each channel so the backdrop comes out neutral grey. Only a bright,
+ * roughly neutral backdrop is trusted as reference: balancing on the product
+ * itself would wash out a genuinely red sofa, so other photos are left alone.
+ */
+const whiteBalance = (raster: Raster, background: number[]) => {
+  if (luminance(background) < 140 || Math.max(...background) - Math.min(...background) > 60) return;
+  const gray = (background[0] + background[1] + background[2]) / 3;
+  const gains = background.map(v => Math.min(MAX_GAIN, Math.max(1 / MAX_GAIN, gray / Math.max(1, v))));
+  for (let i = 0; i < raster.data.length; i += 4) {
+    raster.data[i] *= gains[0];
+    raster.data[i + 1] *= gains[1];
+    raster.data[i + 2] *= gains[2];
+  }
+};
+
+// Loang từ viền ảnh qua các điểm gần màu nền, nên vùng trắng bên trong sản phẩm không bị khoét
+const cutOutBackground = (raster: Raster, background: number[]) => {
+  const { width, height, data } = raster;
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  const push = (x: number, y: number) => {
+    const i = y * width + x;
+    if (visited[i]) return;
+    visited[i] = 1;
+    if (colorDistance(pixelAt(raster, x, y), background) <= BACKGROUND_TOLERANCE) stack.push(i);
+  };
+  for (let x = 0; x < width; x++) { push(x, 0); push(x, height - 1); }
+  for (let y = 0; y < height; y++) { push(0, y); push(width - 1, y); }
+  while (stack.length) {
+    const i = stack.pop()!;
+    data[i * 4 + 3] = 0;
+    const x = i % width;
+    const y = (i - x) / width;
+    if (x > 0) push(x - 1, y);
+    if (x < width - 1) push(x + 1, y);
+    if (y > 0) push(x, y - 1);
+    if (y < height - 1) push(x, y + 1);
+  }
+};
+
+/**
+ * Cleans a shop-floor photo before it is sent to the model: EXIF rotation,
+ * white balance, optional background cutout and a crop to the product. Results
+ * with transparency stay PNG (flattened to white only when sent); the rest are
+ * re-encoded as JPEG. Returns an object URL.
+ */
+export const preprocessImage = async (sourceUrl: string, options: PreprocessOptions): Promise<string> => {
+  const raster = await decode(sourceUrl);
+  const transparent = hasTransparency(raster);
+  // Ảnh PNG đã tách nền thì alpha chính là mặt nạ sản phẩm, không cần đoán màu nền
+  const background = transparent ? null : borderColor(raster);
+
+  if (options.whiteBalance && background) whiteBalance(raster, background);
+  const balancedBackground = background && borderColor(raster);
+  const cutOut = options.removeBackground && !!balancedBackground;
+  if (cutOut) cutOutBackground(raster, balancedBackground!);
+
+  const hasAlpha = transparent || cutOut;
+  let crop = { x: 0, y: 0, width: raster.width, height: raster.height };
+  if (options.autoCrop) {
+    const bounds = contentBounds(raster, (x, y) => hasAlpha
+      ? raster.data[(y * raster.width + x) * 4 + 3] >= ALPHA_THRESHOLD
+      : colorDistance(pixelAt(raster, x, y), balancedBackground!) > BACKGROUND_TOLERANCE);
+    const pad = Math.round(Math.max(bounds.width, bounds.height) * CROP_PADDING);
+    const x = Math.max(0, bounds.x - pad);
+    const y = Math.max(0, bounds.y - pad);
+    crop = { x, y, width: Math.min(raster.width, bounds.x + bounds.width + pad) - x, height: Math.min(raster.height, bounds.y + bounds.height + pad) - y };
+  }
+
+  const full = document.createElement('canvas');
+  full.width = raster.width;
+  full.height = raster.height;
+  const fullCtx = full.getContext('2d');
+  if (!fullCtx) throw new Error("Could not get canvas context");
+  fullCtx.putImageData(new ImageData(raster.data, raster.width, raster.height), 0, 0);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = crop.width;
+  canvas.height = crop.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  if (!hasAlpha) {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, crop.width, crop.height);
+  }
+  ctx.drawImage(full, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, hasAlpha ? 'image/png' : 'image/jpeg', 0.92));
+  if (!blob) throw new Error(t('error.imageEncode'));
+  return URL.createObjectURL(blob);
+};
+
+/**
+ * Fields of a ProductImage for a freshly uploaded source. If pre-processing
+ * fails the raw upload is used as is, so an odd file never blocks the import.
+ */
+export const prepareInput = async (sourceUrl: string, options: PreprocessOptions): Promise<Pick<ProductImage, 'originalUrl' | 'sourceUrl' | 'preprocess'>> => {
+  try {
+    return { originalUrl: await preprocessImage(sourceUrl, options), sourceUrl, preprocess: { ...options } };
+  } catch (err) {
+    console.error("Preprocess error:", err);
+    return { originalUrl: sourceUrl, sourceUrl, preprocess: undefined };
+  }
+};
@@ -0,0 +1,98 @@
+import { CatalogEntry, Collection, RenderParameters, StylePreset } from "../types";
+import { PRESET_STORE, runRequest, dehydrate, hydrate } from "./db";
+import { urlToDataUrl } from "./imageUtils";
+import { isStagingParameters, normalizeStagingParameters } from "./parameters";
+import { createMoodBoardImage, migrateMoodBoard } from "./moodBoard";
+import { parseCatalogEntries, presetCustomEntries } from "./catalog";
+import { t } from "./i18n";
+
+const PRESET_FILE_FORMAT = 'lem-studio-presets';
+const PRESET_FILE_VERSION = 1;
+
+interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  presets: StylePreset[];
+  // Mục catalog tùy chỉnh mà các preset dùng tới, ảnh minh hoạ ở dạng data URL
+  catalog?: CatalogEntry[];
+}
+
+export const loadPresets = async (): Promise<StylePreset[]> => {
+  const records = await runRequest<unknown[]>(PRESET_STORE, 'readonly', store => store.getAll());
+  const cache = new Map<Blob, string>();
+  return (records.map(r => hydrate(r, cache)) as StylePreset[])
+    .map(p => ({
+      ...p,
+      stagingParameters: normalizeStagingParameters(p.stagingParameters),
+      moodBoard: migrateMoodBoard(p.moodBoard)
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const savePreset = async (preset: StylePreset): Promise<void> => {
+  const record = await dehydrate(preset, new Map());
+  await runRequest(PRESET_STORE, 'readwrite', store => store.put(record));
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  await runRequest(PRESET_STORE, 'readwrite', store => store.delete(id));
+};
+
+/** Captures the parameters of the mode the collection is currently in. */
+export const createPresetFromCollection = (collection: Collection, name: string): StylePreset => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name,
+  stagingParameters: collection.mode === 'Individual'
+    ? { ...collection.stagingParameters, ...collection.parameters }
+    : { ...collection.stagingParameters },
+  moodBoard: collection.moodBoard.map(m => ({ ...m })),
+  createdAt: Date.now()
+});
+
+export const applyPreset = (collection: Collection, preset: StylePreset): Collection => {
+  const { layoutDensity, arrangementStyle, viewpoints, ...parameters } = preset.stagingParameters;
+  return {
+    ...collection,
+    parameters: { ...collection.parameters, ...(parameters as RenderParameters) },
+    stagingParameters: { ...collection.stagingParameters, ...preset.stagingParameters, viewpoints: [...viewpoints] },
+    moodBoard: preset.moodBoard?.length ? preset.moodBoard.map(m => ({ ...m, id: createMoodBoardImage(m.url).id })) : collection.moodBoard
+  };
+};
+
+export const exportPresets = async (presets: StylePreset[], catalog: CatalogEntry[]): Promise<Blob> => {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    presets: await Promise.all(presets.map(async p => ({
+      ...p,
+      moodBoard: await Promise.all((p.moodBoard ?? []).map(async m => ({ ...m, url: await urlToDataUrl(m.url) })))
+    }))),
+    catalog: await Promise.all(presetCustomEntries(presets, catalog).map(async e => ({
+      ...e,
+      thumbnailUrl: e.thumbnailUrl && await urlToDataUrl(e.thumbnailUrl)
+    })))
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+};
+
+/**
+ * Parses an exported preset file; imported presets get fresh ids so they never overwrite local ones.
+ * Catalog entries keep their ids; the caller decides which ones are new.
+ */
+export const parsePresetFile = (text: string): { presets: StylePreset[]; catalog: CatalogEntry[] } => {
+  const file = JSON.parse(text) as Partial<PresetFile>;
+  if (file.format !== PRESET_FILE_FORMAT || !Array.isArray(file.presets)) {
+    throw new Error(t('error.presetFile'));
+  }
+  const presets = file.presets
+    .filter(p => p && typeof p.name === 'string' && isStagingParameters(p.stagingParameters))
+    .map(p => ({
+      id: Math.random().toString(36).substr(2, 9),
+      name: p.name,
+      stagingParameters: normalizeStagingParameters(p.stagingParameters),
+      // File cũ chỉ có một ảnh mood board dạng chuỗi
+      moodBoard: migrateMoodBoard(p.moodBoard).filter(m => m.url.startsWith('data:image/')),
+      createdAt: typeof p.createdAt === 'number' ? p.createdAt : Date.now()
+    }));
+  return { presets, catalog: parseCatalogEntries(file.catalog) };
+};
@@ -0,0 +1,45 @@
+import { Collection, InputStatus, Product, ProductImage } from "../types";
+
+export const nextSku = (collection: Collection): string => {
+  const prefix = collection.metadata.skuPrefix.trim().toUpperCase() || 'SKU';
+  return `${prefix}-${String(collection.products.length + 1).padStart(3, '0')}`;
+};
+
+/** Other views of the same product, used as extra references when rendering `image`. */
+export const siblingViews = (images: ProductImage[], image: ProductImage): ProductImage[] =>
+  image.productId
+    ? images.filter(img => img.productId === image.productId && img.id !== image.id && img.inputStatus !== InputStatus.REMOVED)
+    : [];
+
+/**
+ * Splits a staging selection into one primary image per product plus every other
+ * view of those products, so a SKU is placed once but rendered from all its angles.
+ */
+export const splitStagingInputs = (images: ProductImage[], selected: ProductImage[]) => {
+  const primaries: ProductImage[] = [];
+  const seenProducts = new Set<string>();
+  for (const img of selected) {
+    if (img.productId && seenProducts.has(img.productId)) continue;
+    if (img.productId) seenProducts.add(img.productId);
+    primaries.push(img);
+  }
+  const primaryIds = new Set(primaries.map(p => p.id));
+  const referenceViews = images.filter(img =>
+    img.productId && seenProducts.has(img.productId) && !primaryIds.has(img.id) && img.inputStatus !== InputStatus.REMOVED
+  );
+  return { primaries, referenceViews };
+};
+
+export const groupImages = (collection: Collection, imageIds: string[]): Collection => {
+  const product: Product = { id: Math.random().toString(36).substr(2, 9), sku: nextSku(collection), name: '' };
+  const images = collection.images.map(img => imageIds.includes(img.id) ? { ...img, productId: product.id, isSelected: false } : img);
+  // Sản phẩm không còn ảnh nào sau khi gom lại thì bị loại bỏ
+  const products = [...collection.products, product].filter(p => images.some(img => img.productId === p.id));
+  return { ...collection, products, images };
+};
+
+export const ungroupProduct = (collection: Collection, productId: string): Collection => ({
+  ...collection,
+  products: collection.products.filter(p => p.id !== productId),
+  images: collection.images.map(img => img.productId === productId ? { ...img, productId: undefined } : img)
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { CameraAngle, DesignStyle, LightingEnvironment, RenderParameters, RoomType } from '../types';
+import { parseProjectBundle } from './projectBundle';
+import { t } from './i18n';
+
+const PARAMS: RenderParameters = {
+  spaceType: 'Interior',
+  roomType: RoomType.LIVING_ROOM,
+  lightingEnv: LightingEnvironment.MORNING,
+  lightingDirection: 'Side',
+  designStyle: DesignStyle.MODERN,
+  colorPalette: [],
+  mood: 'Warm',
+  allowExternalItems: false
+};
+
+const bundle = (collection: Record<string, unknown> = {}, extra: Record<string, unknown> = {}) => JSON.stringify({
+  format: 'lem-studio-project',
+  version: 1,
+  exportedAt: 0,
+  collection: {
+    id: 'c1',
+    name: 'Sofa',
+    mode: 'Staging',
+    parameters: PARAMS,
+    stagingParameters: { ...PARAMS, layoutDensity: 'Balanced', arrangementStyle: 'Organic', viewpoints: [CameraAngle.WIDE] },
+    images: [],
+    stagedScenes: [],
+    ...collection
+  },
+  templates: [],
+  media: {},
+  ...extra
+});
+
+describe('parseProjectBundle', () => {
+  it('imports a well-formed bundle under a fresh id', () => {
+    const { collection } = parseProjectBundle(bundle());
+    expect(collection.name).toBe('Sofa');
+    expect(collection.id).not.toBe('c1');
+  });
+
+  it.each([
+    ['empty parameters', { parameters: {} }],
+    ['a non-string mood', { parameters: { ...PARAMS, mood: 42 } }],
+    ['an unknown lighting direction', { parameters: { ...PARAMS, lightingDirection: 'Under' } }],
+    ['staging parameters without viewpoints', { stagingParameters: { ...PARAMS, layoutDensity: 'Balanced', arrangementStyle: 'Organic' } }]
+  ])('rejects %s', (_, collection) => {
+    expect(() => parseProjectBundle(bundle(collection))).toThrow(t('error.bundleData'));
+  });
+
+  it.each([
+    ['an unknown kind', { id: 't1', name: 'Custom', kind: 'video', versions: [{ version: 1, body: 'x', savedAt: 0 }] }],
+    ['a version without a body', { id: 't1', name: 'Custom', kind: 'product', versions: [{ version: 1, savedAt: 0 }] }],
+    ['no versions', { id: 't1', name: 'Custom', kind: 'product', versions: [] }]
+  ])('rejects a template with %s', (_, template) => {
+    expect(() => parseProjectBundle(bundle({}, { templates: [template] }))).toThrow(t('error.bundleData'));
+  });
+});
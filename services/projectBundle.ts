@@ -0,0 +1,156 @@
+import { Collection, PromptTemplate, CatalogEntry } from "../types";
+import { isMediaUrl } from "./db";
+import { parseCatalogEntries, usedCustomEntries } from "./catalog";
+import { urlToDataUrl } from "./imageUtils";
+import { migrateCollection, remapIds } from "./projectStore";
+import { isRenderParameters, isStagingParameters } from "./parameters";
+import { t } from "./i18n";
+
+export const BUNDLE_EXTENSION = '.lemproj';
+
+const BUNDLE_FORMAT = 'lem-studio-project';
+const BUNDLE_VERSION = 1;
+const MEDIA_PREFIX = 'media:';
+
+/**
+ * A portable project file. Every image in the collection is replaced by a
+ * `media:<key>` reference into `media`, so a render that is both a version and
+ * the final is only embedded once.
+ */
+interface ProjectBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  collection: Collection;
+  // Template tùy chỉnh mà collection đang dùng; template có sẵn không cần đóng gói
+  templates: PromptTemplate[];
+  // Mục catalog tùy chỉnh mà tham số dùng tới; giữ nguyên id vì tham số trỏ vào id
+  catalog?: CatalogEntry[];
+  media: Record<string, string>; // key → data URL
+}
+
+// Mỗi phiên bản định dạng cũ có một bước nâng cấp lên phiên bản kế tiếp
+const MIGRATIONS: Record<number, (bundle: unknown) => unknown> = {};
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const mapStrings = (value: unknown, fn: (value: string) => string): unknown => {
+  if (typeof value === 'string') return fn(value);
+  if (Array.isArray(value)) return value.map(v => mapStrings(v, fn));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, mapStrings(v, fn)]));
+  }
+  return value;
+};
+
+export const exportProjectBundle = async (collection: Collection, templates: PromptTemplate[], catalog: CatalogEntry[]): Promise<Blob> => {
+  const entries = usedCustomEntries(collection, catalog);
+  const keys = new Map<string, string>();
+  mapStrings([collection, entries], value => {
+    if (isMediaUrl(value) && !keys.has(value)) keys.set(value, `m${keys.size + 1}`);
+    return value;
+  });
+
+  const media: Record<string, string> = {};
+  await Promise.all([...keys].map(async ([url, key]) => {
+    media[key] = await urlToDataUrl(url);
+  }));
+
+  const bundle: ProjectBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    collection: mapStrings(collection, value => keys.has(value) ? `${MEDIA_PREFIX}${keys.get(value)}` : value) as Collection,
+    templates: templates.filter(t => !t.builtIn && (t.id === collection.productTemplateId || t.id === collection.stagingTemplateId)),
+    catalog: mapStrings(entries, value => keys.has(value) ? `${MEDIA_PREFIX}${keys.get(value)}` : value) as CatalogEntry[],
+    media
+  };
+  return new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Tham số được kiểm tra từng trường vì UI đọc chúng ngay; các trường còn thiếu khác do migrateCollection bổ sung
+const isCollectionData = (value: unknown): value is Collection =>
+  isObject(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    (value.mode === 'Individual' || value.mode === 'Staging') &&
+    isRenderParameters(value.parameters) &&
+    isStagingParameters(value.stagingParameters) &&
+    Array.isArray(value.images) &&
+    value.images.every(img => isObject(img) && typeof img.id === 'string' && typeof img.originalUrl === 'string') &&
+    Array.isArray(value.stagedScenes) &&
+    value.stagedScenes.every(scene => isObject(scene) && typeof scene.id === 'string' && Array.isArray(scene.productIds));
+
+const isTemplateData = (value: unknown): value is PromptTemplate =>
+  isObject(value) &&
+    typeof value.id === 'string' &&
+    typeof value.name === 'string' &&
+    (value.kind === 'product' || value.kind === 'staging') &&
+    Array.isArray(value.versions) &&
+    value.versions.length > 0 &&
+    value.versions.every(v => isObject(v) && typeof v.body === 'string');
+
+const validateCollection = (value: unknown): Collection => {
+  if (!isCollectionData(value)) throw new Error(t('error.bundleData'));
+  return value;
+};
+
+/**
+ * Reads a `.lemproj` file: checks the format, upgrades older bundle versions,
+ * restores embedded images and assigns fresh ids to the project and its templates.
+ * Catalog entries keep their ids; the caller decides which ones are new.
+ */
+export const parseProjectBundle = (text: string): { collection: Collection; templates: PromptTemplate[]; catalog: CatalogEntry[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(t('error.bundleFormat'));
+  }
+  if (!isObject(parsed) || parsed.format !== BUNDLE_FORMAT) {
+    throw new Error(t('error.bundleFormat'));
+  }
+  const { version } = parsed;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(t('error.bundleVersionInvalid', { version: String(version) }));
+  }
+  if (version > BUNDLE_VERSION) {
+    throw new Error(t('error.bundleVersion'));
+  }
+  let upgraded: unknown = parsed;
+  for (let v = version; v < BUNDLE_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(t('error.bundleVersionInvalid', { version }));
+    upgraded = migrate(upgraded);
+  }
+  if (!isObject(upgraded)) throw new Error(t('error.bundleFormat'));
+  const bundle = upgraded;
+
+  const media: Record<string, unknown> = isObject(bundle.media) ? bundle.media : {};
+  const restoreMedia = (value: string) => {
+    if (!value.startsWith(MEDIA_PREFIX)) return value;
+    const url = media[value.slice(MEDIA_PREFIX.length)];
+    if (typeof url !== 'string' || !url.startsWith('data:image/')) {
+      throw new Error(t('error.bundleMedia'));
+    }
+    return url;
+  };
+  const restored = mapStrings(bundle.collection, restoreMedia);
+
+  const rawTemplates = Array.isArray(bundle.templates) ? bundle.templates : [];
+  if (!rawTemplates.every(isTemplateData)) throw new Error(t('error.bundleData'));
+  const templateIds = new Map<string, string>();
+  const templates: PromptTemplate[] = rawTemplates.map(tpl => {
+    const id = newId();
+    templateIds.set(tpl.id, id);
+    return { ...tpl, id, builtIn: undefined };
+  });
+
+  const catalog = parseCatalogEntries(Array.isArray(bundle.catalog) ? mapStrings(bundle.catalog, restoreMedia) : []);
+
+  const exportedAt = typeof bundle.exportedAt === 'number' ? bundle.exportedAt : Date.now();
+  const collection = remapIds(migrateCollection(validateCollection(restored), exportedAt), templateIds);
+  return { collection, templates, catalog };
+};
@@ -0,0 +1,150 @@
+import { CameraAngle, Collection } from "../types";
+import { PROJECT_STORE, runRequest, dehydrate, hydrate } from "./db";
+import { normalizeAngle, normalizePalette, normalizeStagingParameters } from "./parameters";
+import { LegacyOutputSettings, migrateOutput } from "./output";
+import { DEFAULT_FIDELITY } from "./fidelity";
+import { DEFAULT_PREPROCESS } from "./preprocess";
+import { migrateMoodBoard } from "./moodBoard";
+import { migrateVersions } from "./versions";
+import { t } from "./i18n";
+
+interface StoredProject {
+  id: string;
+  name: string;
+  updatedAt: number;
+  // Collection với mọi blob:/data: URL đã được chuyển thành Blob thật
+  data: unknown;
+}
+
+// Dự án lưu từ phiên bản cũ được bổ sung metadata, chuẩn hóa bảng màu, góc máy và chuyển ảnh tham chiếu đơn thành mood board
+export const migrateCollection = ({ referenceImage, ...collection }: Collection & { referenceImage?: string }, savedAt: number): Collection => {
+  const { output, wideProfileId } = migrateOutput(collection.output as LegacyOutputSettings | undefined);
+  return {
+    ...collection,
+    moodBoard: migrateMoodBoard(collection.moodBoard, referenceImage),
+    products: collection.products ?? [],
+    usage: collection.usage ?? [],
+    // Hàng đợi render không được lưu lại, nên mục đang render dở khi đóng app coi như lỗi
+    images: collection.images.map(img => migrateVersions(
+      img.renderStatus === 'processing' ? { ...img, renderStatus: 'error', errorMessage: t('error.interrupted') } : img,
+      collection.parameters,
+      savedAt
+    )),
+    stagedScenes: collection.stagedScenes.map(scene => {
+      const angle = normalizeAngle(scene.angle);
+      // Góc toàn cảnh từng render ở khung 16:9, khác với các góc còn lại
+      return { ...scene, angle, profileId: scene.profileId ?? (angle === CameraAngle.WIDE ? wideProfileId : undefined) };
+    }).map(scene => migrateVersions(
+      scene.status === 'processing' ? { ...scene, status: 'error', errorMessage: t('error.interrupted') } : scene,
+      collection.stagingParameters,
+      savedAt
+    )),
+    parameters: { ...collection.parameters, colorPalette: normalizePalette(collection.parameters.colorPalette) },
+    stagingParameters: normalizeStagingParameters(collection.stagingParameters),
+    output,
+    fidelity: { ...DEFAULT_FIDELITY, ...collection.fidelity },
+    preprocess: { ...DEFAULT_PREPROCESS, ...collection.preprocess },
+    metadata: {
+      client: '',
+      skuPrefix: '',
+      createdAt: savedAt,
+      updatedAt: savedAt,
+      ...collection.metadata
+    }
+  };
+};
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * Gives every entity a fresh id so an imported or duplicated project never collides with one already in the workspace.
+ * Expects a migrated collection; `templateIds` maps custom templates that were re-created under new ids.
+ */
+export const remapIds = (collection: Collection, templateIds = new Map<string, string>()): Collection => {
+  const ids = new Map<string, string>();
+  const remap = (id?: string) => {
+    if (!id) return id;
+    if (!ids.has(id)) ids.set(id, newId());
+    return ids.get(id)!;
+  };
+  const remapVersions = <T extends { versions?: { id: string }[]; finalVersionId?: string }>(item: T): T => ({
+    ...item,
+    versions: item.versions?.map(v => ({ ...v, id: remap(v.id)! })),
+    finalVersionId: remap(item.finalVersionId)
+  });
+  const customProfiles = collection.output.customProfiles.map(p => ({ ...p, id: remap(p.id)! }));
+  // Profile id chỉ đổi khi là profile tùy chỉnh; id của profile có sẵn được giữ nguyên
+  const remapProfile = (id?: string) => id && ids.has(id) ? ids.get(id) : id;
+
+  return {
+    ...collection,
+    id: newId(),
+    products: collection.products.map(p => ({ ...p, id: remap(p.id)! })),
+    images: collection.images.map(img => remapVersions({ ...img, id: remap(img.id)!, productId: remap(img.productId) })),
+    stagedScenes: collection.stagedScenes.map(scene => remapVersions({
+      ...scene,
+      id: remap(scene.id)!,
+      productIds: scene.productIds.map(id => remap(id)!),
+      masterSceneId: remap(scene.masterSceneId),
+      profileId: remapProfile(scene.profileId)
+    })),
+    output: {
+      ...collection.output,
+      customProfiles,
+      productProfileId: remapProfile(collection.output.productProfileId)!,
+      stagingProfileId: remapProfile(collection.output.stagingProfileId)!
+    },
+    productTemplateId: collection.productTemplateId && (templateIds.get(collection.productTemplateId) ?? collection.productTemplateId),
+    stagingTemplateId: collection.stagingTemplateId && (templateIds.get(collection.stagingTemplateId) ?? collection.stagingTemplateId)
+  };
+};
+
+export const loadAllProjects = async (): Promise<Collection[]> => {
+  const records = await runRequest<StoredProject[]>(PROJECT_STORE, 'readonly', store => store.getAll());
+  const cache = new Map<Blob, string>();
+  return records
+    .map(record => migrateCollection(hydrate(record.data, cache) as Collection, record.updatedAt))
+    .sort((a, b) => b.metadata.updatedAt - a.metadata.updatedAt);
+};
+
+// Các lượt ghi của cùng một dự án chạy nối tiếp: dehydrate phải đọc hết blob nên hai lượt lưu có thể xong lệch thứ tự
+const writeChains = new Map<string, Promise<void>>();
+// Dự án đã xoá; lượt lưu còn xếp hàng sẽ bỏ qua để không tạo lại bản ghi
+const deletedIds = new Set<string>();
+
+const enqueueWrite = (id: string, write: () => Promise<void>): Promise<void> => {
+  const next = (writeChains.get(id) ?? Promise.resolve()).catch(() => undefined).then(write);
+  writeChains.set(id, next);
+  const cleanup = () => {
+    if (writeChains.get(id) === next) writeChains.delete(id);
+  };
+  next.then(cleanup, cleanup);
+  return next;
+};
+
+export const saveProject = (collection: Collection): Promise<void> =>
+  enqueueWrite(collection.id, async () => {
+    if (deletedIds.has(collection.id)) return;
+    const data = await dehydrate(collection, new Map());
+    if (deletedIds.has(collection.id)) return;
+    const record: StoredProject = {
+      id: collection.id,
+      name: collection.name,
+      updatedAt: collection.metadata.updatedAt,
+      data
+    };
+    await runRequest(PROJECT_STORE, 'readwrite', store => store.put(record));
+  });
+
+export const deleteProject = (id: string): Promise<void> => {
+  deletedIds.add(id);
+  return enqueueWrite(id, async () => {
+    try {
+      await runRequest(PROJECT_STORE, 'readwrite', store => store.delete(id));
+    } catch (err) {
+      // Xoá không thành thì dự án vẫn còn, cho phép lưu tiếp
+      deletedIds.delete(id);
+      throw err;
+    }
+  });
+};
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { CameraAngle, CatalogEntry, DesignStyle, LightingEnvironment, MoodBoardRole, ProductImage, RenderParameters, RoomType, StagingParameters, ViewType, InputStatus } from '../types';
+import { BUILT_IN_CATALOG } from './catalog';
+import { BUILT_IN_PROFILES } from './output';
+import { DEFAULT_CAMERA_RIG } from './camera';
+import { ARRANGEMENT_STYLES, LAYOUT_DENSITIES, LIGHTING_DIRECTIONS, SPACE_TYPES } from './parameters';
+import { BUILT_IN_TEMPLATES, buildProductPrompt, buildStagingPrompt, resolveTemplate, templateBodyFor } from './promptBuilder';
+
+const PARAMS: RenderParameters = {
+  spaceType: 'Interior',
+  roomType: RoomType.LIVING_ROOM,
+  lightingEnv: LightingEnvironment.MORNING,
+  lightingDirection: 'Side',
+  designStyle: DesignStyle.MODERN,
+  colorPalette: ['#E8DCCB', '#8D7B68'],
+  mood: 'Warm and inviting',
+  allowExternalItems: false
+};
+
+const STAGING_PARAMS: StagingParameters = {
+  ...PARAMS,
+  layoutDensity: 'Balanced',
+  arrangementStyle: 'Focal Point',
+  viewpoints: [CameraAngle.WIDE]
+};
+
+const image = (viewType: ViewType): ProductImage => ({
+  id: viewType,
+  originalUrl: 'blob:product',
+  viewType,
+  inputStatus: InputStatus.CONFIRMED,
+  renderStatus: 'pending'
+});
+
+const profile = (id: string) => BUILT_IN_PROFILES.find(p => p.id === id)!;
+
+const product = (params: Partial<RenderParameters> = {}, moodBoard: MoodBoardRole[] = [], referenceViews: ProductImage[] = []) =>
+  buildProductPrompt(image(ViewType.FRONT), { ...PARAMS, ...params }, moodBoard, undefined, referenceViews, undefined, BUILT_IN_CATALOG);
+
+const staging = (params: Partial<StagingParameters> = {}, angle: string = CameraAngle.WIDE, hasMasterShot = false, catalog: CatalogEntry[] = BUILT_IN_CATALOG) =>
+  buildStagingPrompt({ ...STAGING_PARAMS, ...params }, angle, { moodBoard: [], hasMasterShot, catalog });
+
+describe('resolveTemplate', () => {
+  it('fills known placeholders and keeps unknown ones visible', () => {
+    expect(resolveTemplate('Room: {{ roomType }}, {{typo}}', { roomType: 'Bedroom' })).toBe('Room: Bedroom, {{typo}}');
+  });
+
+  it('treats inherited object keys as unknown placeholders', () => {
+    expect(resolveTemplate('{{toString}} {{constructor}}', {})).toBe('{{toString}} {{constructor}}');
+  });
+
+  it('drops lines that resolve empty', () => {
+    expect(resolveTemplate('A\n{{empty}}\n  \nB', { empty: '' })).toBe('A\nB');
+  });
+});
+
+describe('templateBodyFor', () => {
+  it('falls back to the built-in template when the picked one is gone', () => {
+    expect(templateBodyFor([], 'staging', 'deleted')).toBe(BUILT_IN_TEMPLATES.find(tpl => tpl.kind === 'staging')!.versions[0].body);
+  });
+});
+
+describe('buildProductPrompt', () => {
+  it('describes the view and the catalog values', () => {
+    const prompt = product();
+    expect(prompt).toContain('Product View: front.');
+    expect(prompt).toContain(`Environment: ${RoomType.LIVING_ROOM}.`);
+    expect(prompt).toContain(`Design Style: ${DesignStyle.MODERN}.`);
+    expect(prompt).toContain(`Lighting: ${LightingEnvironment.MORNING}.`);
+    expect(prompt).not.toContain('{{');
+  });
+
+  it.each(SPACE_TYPES)('gives distinct setting instructions for %s spaces', spaceType => {
+    expect(product({ spaceType })).toContain(`Setting: an ${spaceType.toLowerCase()} space`);
+  });
+
+  it('gives each lighting direction its own instructions', () => {
+    const prompts = LIGHTING_DIRECTIONS.map(lightingDirection => product({ lightingDirection }));
+    expect(new Set(prompts).size).toBe(LIGHTING_DIRECTIONS.length);
+  });
+
+  it('lists the palette only when one is set', () => {
+    expect(product()).toContain('Color Palette: #E8DCCB, #8D7B68 (hex).');
+    expect(product({ colorPalette: [] })).not.toContain('Color Palette');
+  });
+
+  it('allows or forbids extra props', () => {
+    expect(product({ allowExternalItems: true })).toContain('you may add complementary décor');
+    expect(product({ allowExternalItems: false })).toContain('no additional props');
+  });
+
+  it('uses the prompt of a custom catalog entry instead of its id', () => {
+    const entry: CatalogEntry = { id: 'loft', kind: 'roomType', label: 'Loft', prompt: 'an industrial loft with brick walls', spaceType: 'Interior', createdAt: 0 };
+    const prompt = buildProductPrompt(image(ViewType.FRONT), { ...PARAMS, roomType: 'loft' }, [], undefined, [], undefined, [...BUILT_IN_CATALOG, entry]);
+    expect(prompt).toContain('Environment: an industrial loft with brick walls.');
+  });
+
+  it('mentions reference views and mood board images only when present', () => {
+    expect(product()).not.toContain('Additional images');
+    expect(product({}, [], [image(ViewType.SIDE), image(ViewType.BACK)])).toContain('other angles (side, back)');
+    expect(product({}, ['lighting', 'material'])).toContain('The last 2 images are MOOD BOARD references');
+  });
+
+  it('adds framing and background rules from the output profile', () => {
+    const prompt = buildProductPrompt(image(ViewType.FRONT), PARAMS, [], undefined, [], profile('builtin-ecommerce'), BUILT_IN_CATALOG);
+    expect(prompt).toContain('compose for a 1:1 frame');
+    expect(prompt).toContain('at least 5% away from each edge');
+    expect(prompt).toContain('seamless pure white (#FFFFFF)');
+    expect(product()).not.toContain('Framing:');
+  });
+});
+
+describe('buildStagingPrompt', () => {
+  it('gives each layout density and arrangement style its own instructions', () => {
+    const prompts = LAYOUT_DENSITIES.flatMap(layoutDensity => ARRANGEMENT_STYLES.map(arrangementStyle => staging({ layoutDensity, arrangementStyle })));
+    expect(new Set(prompts).size).toBe(LAYOUT_DENSITIES.length * ARRANGEMENT_STYLES.length);
+  });
+
+  it('asks to match the master shot only for perspective angles', () => {
+    expect(staging()).not.toContain('MASTER SHOT');
+    expect(staging({}, CameraAngle.TOP_DOWN, true)).toContain('The first image is the MASTER SHOT');
+  });
+
+  it('names built-in angles without camera placement', () => {
+    const prompt = staging({}, CameraAngle.CLOSEUP);
+    expect(prompt).toContain(`Camera Perspective: ${CameraAngle.CLOSEUP}.`);
+    expect(prompt).not.toContain('Camera Setup');
+  });
+
+  it('places the camera for a parametric rig', () => {
+    const rig: CatalogEntry = { id: 'rig', kind: 'cameraAngle', label: 'Corner view', prompt: '', camera: { ...DEFAULT_CAMERA_RIG, azimuth: 90 }, createdAt: 0 };
+    const prompt = staging({}, 'rig', false, [...BUILT_IN_CATALOG, rig]);
+    expect(prompt).toContain('Camera Perspective: Corner view.');
+    expect(prompt).toContain('Camera Setup: 35mm');
+    expect(prompt).toContain('at an orbit angle of 90°');
+  });
+});
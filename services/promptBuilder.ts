@@ -0,0 +1,206 @@
+import { RenderParameters, StagingParameters, ProductImage, PromptTemplate, ViewType, OutputProfile, MoodBoardRole, CatalogEntry } from "../types";
+import { backgroundInstructions } from "./output";
+import { catalogPrompt, findEntry } from "./catalog";
+import { cameraInstructions } from "./camera";
+import { moodBoardInstructions } from "./moodBoard";
+import { t } from "./i18n";
+import { MessageKey } from "../locales/en";
+
+const LIGHTING_DIRECTION: Record<RenderParameters['lightingDirection'], string> = {
+  Front: 'Key light from the camera side, soft even illumination with minimal shadows.',
+  Side: 'Key light from the side, raking across surfaces to reveal texture and cast directional shadows.',
+  Back: 'Backlit composition with a subtle rim light separating the product from the background.',
+  Overhead: 'Overhead key light falling from above, with short grounded shadows beneath objects.'
+};
+
+const SPACE_TYPE: Record<RenderParameters['spaceType'], string> = {
+  Interior: 'Setting: an interior space with realistic architectural surfaces (walls, floor, ceiling).',
+  Exterior: 'Setting: an exterior space with outdoor materials, natural sky light and landscape context.'
+};
+
+const LAYOUT_DENSITY: Record<StagingParameters['layoutDensity'], string> = {
+  Minimal: 'Layout density: minimal, few elements and generous negative space.',
+  Balanced: 'Layout density: balanced, the room feels furnished but uncluttered.',
+  Spacious: 'Layout density: spacious, open floor area with wide circulation paths between pieces.'
+};
+
+const ARRANGEMENT_STYLE: Record<StagingParameters['arrangementStyle'], string> = {
+  'Focal Point': 'Arrangement: build the composition around one hero piece as the clear focal point.',
+  Symmetrical: 'Arrangement: symmetrical, mirror the furniture layout along the central axis of the room.',
+  Organic: 'Arrangement: organic, informal lived-in placement with natural asymmetry.'
+};
+
+const MASTER_SHOT_INSTRUCTIONS = 'CRITICAL: The first image is the MASTER SHOT. Reproduce the exact same room, layout and materials, changing only the camera position.';
+
+export const DEFAULT_PRODUCT_TEMPLATE = `Professional CGI Furniture Rendering.
+Task: Create a high-end catalog image.
+Product View: {{viewType}}.
+{{viewReferenceInstructions}}
+{{spaceInstructions}}
+Environment: {{roomType}}.
+Design Style: {{designStyle}}.
+Lighting: {{lightingEnv}}. {{lightingInstructions}}
+{{paletteInstructions}}
+Mood: {{mood}}.
+{{propsInstructions}}
+{{framingInstructions}}
+{{backgroundInstructions}}
+Instructions: Place the product in the center of the scene. Ensure physics-accurate shadows, realistic texture mapping, and professional photographic composition.
+{{referenceInstructions}}`;
+
+export const DEFAULT_STAGING_TEMPLATE = `Full Scene Professional Interior CGI.
+{{spaceInstructions}}
+Environment: {{roomType}}.
+Design Style: {{designStyle}}.
+Lighting: {{lightingEnv}}. {{lightingInstructions}}
+{{paletteInstructions}}
+Mood: {{mood}}.
+{{propsInstructions}}
+{{layoutInstructions}}
+{{arrangementInstructions}}
+{{viewReferenceInstructions}}
+Camera Perspective: {{angle}}.
+{{cameraInstructions}}
+{{framingInstructions}}
+{{backgroundInstructions}}
+Goal: Arrange all provided furniture items into a cohesive, aesthetically perfect interior design.
+Maintain consistent materials and lighting across the entire collection.
+{{referenceInstructions}}`;
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  { id: 'builtin-product', name: 'Default Product', kind: 'product', builtIn: true, versions: [{ version: 1, body: DEFAULT_PRODUCT_TEMPLATE, savedAt: 0 }] },
+  { id: 'builtin-staging', name: 'Default Staging', kind: 'staging', builtIn: true, versions: [{ version: 1, body: DEFAULT_STAGING_TEMPLATE, savedAt: 0 }] }
+];
+
+/** Display name of a template; built-in names come from the locale tables. */
+export const templateName = (template: PromptTemplate): string =>
+  template.builtIn ? t(`template.name.${template.id}` as MessageKey) : template.name;
+
+export type PromptVariables = Record<string, string>;
+
+/**
+ * Variables available to every template, derived from the render parameters.
+ * Catalog fields resolve to the entry's prompt fragment.
+ */
+export const parameterVariables = (params: RenderParameters, catalog: CatalogEntry[] = []): PromptVariables => ({
+  spaceType: params.spaceType,
+  spaceInstructions: SPACE_TYPE[params.spaceType],
+  roomType: catalogPrompt(catalog, 'roomType', params.roomType),
+  designStyle: catalogPrompt(catalog, 'designStyle', params.designStyle),
+  lightingEnv: catalogPrompt(catalog, 'lightingEnv', params.lightingEnv),
+  lightingDirection: params.lightingDirection,
+  lightingInstructions: LIGHTING_DIRECTION[params.lightingDirection],
+  colorPalette: params.colorPalette.join(', '),
+  paletteInstructions: params.colorPalette.length > 0
+    ? `Color Palette: ${params.colorPalette.join(', ')} (hex). Keep walls, floor and décor within this palette.`
+    : '',
+  mood: params.mood,
+  propsInstructions: params.allowExternalItems
+    ? 'Props: you may add complementary décor that suits the style, as long as it never hides or overshadows the provided products.'
+    : 'Props: no additional props. Do not add any furniture, décor or objects beyond the provided products.'
+});
+
+/** Framing variables from the output profile; empty when rendering without one. */
+export const framingVariables = (params: RenderParameters, profile?: OutputProfile): PromptVariables => ({
+  aspectRatio: profile?.aspectRatio ?? '',
+  framingInstructions: profile
+    ? `Framing: compose for a ${profile.aspectRatio} frame. Keep every product fully inside the central safe area, at least ${Math.round(profile.safeMargin * 100)}% away from each edge.`
+    : '',
+  backgroundInstructions: profile ? backgroundInstructions(profile, params) : ''
+});
+
+const describeReferenceViews = (views: ViewType[]): string =>
+  views.length > 0
+    ? `Additional images show the same product from other angles (${views.join(', ')}). Use them only to reproduce its exact geometry, materials and details; they are not extra items.`
+    : '';
+
+export const productVariables = (
+  viewType: ViewType,
+  params: RenderParameters,
+  moodBoard: MoodBoardRole[],
+  referenceViews: ViewType[] = [],
+  profile?: OutputProfile,
+  catalog: CatalogEntry[] = []
+): PromptVariables => ({
+  ...parameterVariables(params, catalog),
+  ...framingVariables(params, profile),
+  viewType,
+  viewReferenceInstructions: describeReferenceViews(referenceViews),
+  referenceInstructions: moodBoardInstructions(moodBoard)
+});
+
+export interface StagingPromptContext {
+  moodBoard: MoodBoardRole[]; // Vai trò của từng ảnh mood board, theo thứ tự gửi
+  hasMasterShot: boolean;
+  referenceViews?: ViewType[];
+  profile?: OutputProfile;
+  catalog?: CatalogEntry[];
+}
+
+// Góc có sẵn chỉ có tên, chỉ camera rig mới có chỉ dẫn đặt máy chi tiết
+const describeCamera = (catalog: CatalogEntry[], angle: string): string => {
+  const camera = findEntry(catalog, 'cameraAngle', angle)?.camera;
+  return camera ? cameraInstructions(camera) : '';
+};
+
+export const stagingVariables = (params: StagingParameters, angle: string, context: StagingPromptContext): PromptVariables => ({
+  ...parameterVariables(params, context.catalog),
+  ...framingVariables(params, context.profile),
+  layoutDensity: params.layoutDensity,
+  layoutInstructions: LAYOUT_DENSITY[params.layoutDensity],
+  arrangementStyle: params.arrangementStyle,
+  arrangementInstructions: ARRANGEMENT_STYLE[params.arrangementStyle],
+  viewReferenceInstructions: context.referenceViews?.length
+    ? `Some furniture images are extra angles (${context.referenceViews.join(', ')}) of products already provided. Use them only for fidelity; place each product once.`
+    : '',
+  angle: catalogPrompt(context.catalog ?? [], 'cameraAngle', angle),
+  cameraInstructions: describeCamera(context.catalog ?? [], angle),
+  referenceInstructions: [
+    context.hasMasterShot ? MASTER_SHOT_INSTRUCTIONS : '',
+    moodBoardInstructions(context.moodBoard, context.hasMasterShot)
+  ].filter(Boolean).join('\n')
+});
+
+const MASK_INSTRUCTIONS = 'The second image is a MASK. Change only the region that is white in the mask; everything in the black region must stay pixel-identical.';
+
+export const buildEditPrompt = (instruction: string, masked: boolean): string =>
+  [`Apply professional CGI edit: ${instruction}. Maintain original objects and style.`, masked ? MASK_INSTRUCTIONS : '']
+    .filter(Boolean)
+    .join('\n');
+
+/**
+ * Replaces `{{name}}` placeholders with their values. Unknown placeholders are
+ * left as-is so typos stay visible in the preview; lines that resolve empty are dropped.
+ */
+export const resolveTemplate = (body: string, variables: PromptVariables): string =>
+  body
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => (Object.hasOwn(variables, name) ? variables[name] : match))
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+
+export const latestBody = (template: PromptTemplate): string => template.versions[template.versions.length - 1].body;
+
+/** Body of the template a collection picked, falling back to the built-in one when it was deleted. */
+export const templateBodyFor = (templates: PromptTemplate[], kind: PromptTemplate['kind'], id?: string): string => {
+  const template = templates.find(tpl => tpl.id === id && tpl.kind === kind) ?? BUILT_IN_TEMPLATES.find(tpl => tpl.kind === kind)!;
+  return latestBody(template);
+};
+
+export const buildProductPrompt = (
+  product: ProductImage,
+  params: RenderParameters,
+  moodBoard: MoodBoardRole[],
+  template = DEFAULT_PRODUCT_TEMPLATE,
+  referenceViews: ProductImage[] = [],
+  profile?: OutputProfile,
+  catalog: CatalogEntry[] = []
+): string => resolveTemplate(template, productVariables(product.viewType, params, moodBoard, referenceViews.map(v => v.viewType), profile, catalog));
+
+export const buildStagingPrompt = (
+  params: StagingParameters,
+  angle: string,
+  context: StagingPromptContext,
+  template = DEFAULT_STAGING_TEMPLATE
+): string => resolveTemplate(template, stagingVariables(params, angle, context));
@@ -0,0 +1,112 @@
+import { ApiError } from "@google/genai";
+import { t } from "./i18n";
+
+export type RenderErrorKind = 'quota' | 'auth' | 'safety' | 'no-image' | 'network' | 'invalid-input';
+
+/**
+ * Base class for failures a render backend reports. `message` is already
+ * user-facing; the technical detail stays on `cause` for the console.
+ */
+export abstract class RenderError extends Error {
+  public abstract readonly kind: RenderErrorKind;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export class QuotaError extends RenderError {
+  public readonly kind = 'quota';
+  constructor(options?: { cause?: unknown }) {
+    super(t('error.quota'), options);
+  }
+}
+
+export class AuthError extends RenderError {
+  public readonly kind = 'auth';
+  constructor(options?: { cause?: unknown }) {
+    super(t('error.auth'), options);
+  }
+}
+
+export class SafetyBlockedError extends RenderError {
+  public readonly kind = 'safety';
+  constructor(public readonly reason: string, options?: { cause?: unknown }) {
+    super(t('error.safety', { reason }), options);
+  }
+}
+
+export class NoImageError extends RenderError {
+  public readonly kind = 'no-image';
+  constructor(options?: { cause?: unknown }) {
+    super(t('error.noImage'), options);
+  }
+}
+
+export class NetworkError extends RenderError {
+  public readonly kind = 'network';
+  constructor(options?: { cause?: unknown }) {
+    super(t('error.network'), options);
+  }
+}
+
+export class InvalidInputError extends RenderError {
+  public readonly kind = 'invalid-input';
+  constructor(message = t('error.invalidInput'), options?: { cause?: unknown }) {
+    super(message, options);
+  }
+}
+
+// Số lần thử lại và độ trễ ban đầu (nhân đôi sau mỗi lần) cho từng loại lỗi
+export const RETRY_POLICY: Record<RenderErrorKind, { retries: number; delayMs: number }> = {
+  quota: { retries: 2, delayMs: 3000 },
+  network: { retries: 2, delayMs: 1500 },
+  'no-image': { retries: 1, delayMs: 0 }, // Mô hình đôi khi chỉ trả lời bằng chữ, thử lại một lần là đủ
+  safety: { retries: 0, delayMs: 0 }, // Cùng prompt sẽ bị chặn lại y như cũ
+  auth: { retries: 0, delayMs: 0 },
+  'invalid-input': { retries: 0, delayMs: 0 }
+};
+
+/** Maps whatever the SDK or the browser threw onto one of the render error classes. */
+export const toRenderError = (error: unknown): RenderError => {
+  if (error instanceof RenderError) return error;
+  const cause = { cause: error };
+  if (error instanceof ApiError) {
+    if (error.status === 429) return new QuotaError(cause);
+    if (error.status === 401 || error.status === 403) return new AuthError(cause);
+    // Key thuộc dự án đã bị xoá hoặc chưa được chọn trong AI Studio
+    if (error.status === 404 && /Requested entity was not found/i.test(error.message)) return new AuthError(cause);
+    if (error.status === 400) {
+      return /API key/i.test(error.message) ? new AuthError(cause) : new InvalidInputError(undefined, cause);
+    }
+    if (error.status >= 500) return new NetworkError(cause);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (/RESOURCE_EXHAUSTED|quota/i.test(message)) return new QuotaError(cause);
+  if (error instanceof TypeError || /network|fetch|timed? ?out/i.test(message)) return new NetworkError(cause);
+  return new InvalidInputError(message, cause);
+};
+
+export interface ErrorNotice {
+  title: string;
+  message: string;
+  needsKey: boolean; // Hiện nút kết nối API Key
+}
+
+// Lỗi về key/quota ảnh hưởng mọi lượt render còn lại, không chỉ mục đang lỗi
+export const isFatal = (error: RenderError) => error.kind === 'quota' || error.kind === 'auth';
+
+/**
+ * What the error dialog shows. Render errors get a title per class; anything
+ * else (export, import, download) is shown with its own message.
+ */
+export const errorNotice = (error: unknown, context?: string): ErrorNotice => {
+  const known = error instanceof RenderError ? error : null;
+  const message = known?.message ?? (error instanceof Error ? error.message : String(error));
+  return {
+    title: t(known ? `errorTitle.${known.kind}` : 'errorTitle.unknown'),
+    message: context ? `${context}: ${message}` : message,
+    needsKey: !!known && isFatal(known)
+  };
+};
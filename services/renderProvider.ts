@@ -0,0 +1,83 @@
+import { RenderParameters, ProductImage, StagingParameters, OutputResolution, OutputProfile, MoodBoardImage, CatalogEntry } from "../types";
+import { GeminiService } from "./geminiService";
+import { MockRenderProvider } from "./mockRenderProvider";
+import { UsageListener } from "./usage";
+
+export interface ProductRenderRequest {
+  product: ProductImage;
+  // Các ảnh góc khác của cùng sản phẩm (SKU), dùng làm tham chiếu hình khối
+  referenceViews?: ProductImage[];
+  params: RenderParameters;
+  // Ảnh tham chiếu của mood board, gửi sau cùng theo đúng thứ tự
+  moodBoard?: MoodBoardImage[];
+  template?: string;
+  // Tỉ lệ khung, độ phân giải và quy tắc nền; không có thì dùng khung mặc định của từng loại
+  profile?: OutputProfile;
+  // Để tra đoạn prompt của các tham số catalog; không có thì dùng chính id
+  catalog?: CatalogEntry[];
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+}
+
+export interface StagingRequest {
+  products: ProductImage[];
+  referenceViews?: ProductImage[];
+  params: StagingParameters;
+  angle: string; // Id mục catalog 'cameraAngle'
+  // Vẫn gửi kèm cả khi có master shot, để các góc phụ giữ cùng ánh sáng và chất liệu
+  moodBoard?: MoodBoardImage[];
+  masterShotUrl?: string;
+  template?: string;
+  profile: OutputProfile; // Khung của cảnh luôn lấy từ profile; dự án cũ đã được chuyển sang profile khi tải
+  catalog?: CatalogEntry[];
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+}
+
+export interface EditRequest {
+  imageUrl: string;
+  prompt: string;
+  // Mặt nạ cùng kích thước ảnh: vùng trắng được sửa, vùng đen giữ nguyên
+  maskUrl?: string;
+  imageSize?: OutputResolution;
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+}
+
+// Lượt thứ hai cho bản final: tăng độ phân giải và tinh chỉnh chi tiết, giữ nguyên bố cục
+export interface UpscaleRequest {
+  imageUrl: string;
+  imageSize: OutputResolution;
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+}
+
+export interface RenderResult {
+  imageUrl: string; // data URL
+  prompt: string; // Prompt thực sự đã gửi, lưu lại cùng phiên bản render
+  imageSize: OutputResolution;
+}
+
+/**
+ * An image backend the app can render through. Every method resolves to the
+ * generated image or rejects with a RenderError (see renderErrors.ts); requests
+ * carrying an aborted signal reject with the abort reason instead. Each call
+ * that reached the backend is reported once to the request's `onUsage`.
+ */
+export interface RenderProvider {
+  readonly id: string;
+  renderProduct(request: ProductRenderRequest): Promise<RenderResult>;
+  stageRoom(request: StagingRequest): Promise<RenderResult>;
+  editImage(request: EditRequest): Promise<RenderResult>;
+  upscaleImage(request: UpscaleRequest): Promise<RenderResult>;
+}
+
+// RENDER_PROVIDER=mock chạy hoàn toàn offline, không cần API key
+export const createRenderProvider = (): RenderProvider => {
+  switch (process.env.RENDER_PROVIDER) {
+    case 'mock':
+      return new MockRenderProvider();
+    default:
+      return new GeminiService();
+  }
+};
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { RenderQueue, QueueJob, delay } from './renderQueue';
+
+// Job chỉ xong khi test gọi finish/fail, để kiểm soát thứ tự chạy
+const controlledJob = (id: string) => {
+  const state = { started: false, signal: undefined as AbortSignal | undefined };
+  let finish!: () => void;
+  let fail!: (error: unknown) => void;
+  const job: QueueJob = {
+    id,
+    run: signal => new Promise<void>((resolve, reject) => {
+      state.started = true;
+      state.signal = signal;
+      finish = resolve;
+      fail = reject;
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    })
+  };
+  return { job, state, finish: () => finish(), fail: (error: unknown) => fail(error) };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RenderQueue', () => {
+  it('runs no more jobs at once than its concurrency', async () => {
+    const queue = new RenderQueue(2);
+    const jobs = ['a', 'b', 'c'].map(controlledJob);
+    const outcomes = jobs.map(j => queue.enqueue(j.job));
+    expect(jobs.map(j => j.state.started)).toEqual([true, true, false]);
+    expect(queue.snapshot()).toMatchObject({ running: 2, queued: 1 });
+
+    jobs[0].finish();
+    await outcomes[0];
+    await flush();
+    expect(jobs[2].state.started).toBe(true);
+
+    jobs[1].finish();
+    jobs[2].finish();
+    expect(await Promise.all(outcomes)).toEqual([{ status: 'done' }, { status: 'done' }, { status: 'done' }]);
+    expect(queue.snapshot()).toMatchObject({ running: 0, queued: 0, completed: 3 });
+  });
+
+  it('reports a failed job without stopping the others', async () => {
+    const queue = new RenderQueue(1);
+    const bad = controlledJob('bad');
+    const good = controlledJob('good');
+    const badOutcome = queue.enqueue(bad.job);
+    const goodOutcome = queue.enqueue(good.job);
+    const error = new Error('boom');
+    bad.fail(error);
+    expect(await badOutcome).toEqual({ status: 'failed', error });
+    await flush();
+    good.finish();
+    expect(await goodOutcome).toEqual({ status: 'done' });
+    expect(queue.snapshot()).toMatchObject({ completed: 1, failed: 1 });
+  });
+
+  it('holds back queued jobs while paused and starts them on resume', async () => {
+    const queue = new RenderQueue(1);
+    queue.pause();
+    const job = controlledJob('a');
+    const outcome = queue.enqueue(job.job);
+    expect(job.state.started).toBe(false);
+    expect(queue.snapshot()).toMatchObject({ paused: true, queued: 1 });
+
+    queue.resume();
+    expect(job.state.started).toBe(true);
+    job.finish();
+    expect(await outcome).toEqual({ status: 'done' });
+  });
+
+  it('cancels queued jobs and aborts running ones', async () => {
+    const queue = new RenderQueue(1);
+    const running = controlledJob('running');
+    const queued = controlledJob('queued');
+    const runningOutcome = queue.enqueue(running.job);
+    const queuedOutcome = queue.enqueue(queued.job);
+
+    queue.cancel();
+    expect(running.state.signal?.aborted).toBe(true);
+    expect(await runningOutcome).toEqual({ status: 'cancelled' });
+    expect(await queuedOutcome).toEqual({ status: 'cancelled' });
+    expect(queued.state.started).toBe(false);
+    expect(queue.snapshot()).toMatchObject({ failed: 0, paused: false });
+  });
+
+  it('joins a job whose id is already queued or running', async () => {
+    const queue = new RenderQueue(1);
+    const first = controlledJob('same');
+    const second = controlledJob('same');
+    const outcome = queue.enqueue(first.job);
+    expect(queue.has('same')).toBe(true);
+    expect(queue.enqueue(second.job)).toBe(outcome);
+    expect(queue.snapshot().queued).toBe(0);
+
+    first.finish();
+    expect(await outcome).toEqual({ status: 'done' });
+    expect(second.state.started).toBe(false);
+    expect(queue.has('same')).toBe(false);
+  });
+
+  it('notifies subscribers until they unsubscribe', async () => {
+    const queue = new RenderQueue(1);
+    const seen: number[] = [];
+    const unsubscribe = queue.subscribe(snapshot => seen.push(snapshot.running));
+    const job = controlledJob('a');
+    const outcome = queue.enqueue(job.job);
+    expect(seen).toContain(1);
+
+    unsubscribe();
+    const count = seen.length;
+    job.finish();
+    await outcome;
+    await flush();
+    expect(seen.length).toBe(count);
+  });
+});
+
+describe('delay', () => {
+  it('rejects as soon as its signal is aborted', async () => {
+    const controller = new AbortController();
+    const waiting = delay(60_000, controller.signal);
+    controller.abort(new Error('stop'));
+    await expect(waiting).rejects.toThrow('stop');
+  });
+});
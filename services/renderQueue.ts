@@ -0,0 +1,158 @@
+export interface QueueJob {
+  id: string;
+  run: (signal: AbortSignal) => Promise<void>;
+}
+
+export type JobOutcome =
+  | { status: 'done' }
+  | { status: 'failed'; error: unknown }
+  | { status: 'cancelled' };
+
+export interface QueueSnapshot {
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number;
+  paused: boolean;
+  concurrency: number;
+}
+
+interface PendingJob {
+  job: QueueJob;
+  resolve: (outcome: JobOutcome) => void;
+}
+
+/**
+ * Runs render jobs with bounded concurrency. A failing job never stops the
+ * others; every enqueue resolves with the job's outcome instead of throwing.
+ * Pausing only holds back queued jobs, cancelling also aborts running ones.
+ * Enqueueing an id that is already queued or running joins that job instead of starting another.
+ */
+export class RenderQueue {
+  private pending: PendingJob[] = [];
+  private running = new Map<string, AbortController>();
+  private active = new Map<string, Promise<JobOutcome>>(); // Job đang chờ hoặc đang chạy, theo id
+  private completed = 0;
+  private failed = 0;
+  private paused = false;
+  private listeners = new Set<(snapshot: QueueSnapshot) => void>();
+
+  constructor(private concurrency = 2) {}
+
+  public get isIdle(): boolean {
+    return this.pending.length === 0 && this.running.size === 0;
+  }
+
+  public has(id: string): boolean {
+    return this.active.has(id);
+  }
+
+  public snapshot(): QueueSnapshot {
+    return {
+      queued: this.pending.length,
+      running: this.running.size,
+      completed: this.completed,
+      failed: this.failed,
+      paused: this.paused,
+      concurrency: this.concurrency
+    };
+  }
+
+  public subscribe(listener: (snapshot: QueueSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  public setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.emit();
+    this.pump();
+  }
+
+  public enqueue(job: QueueJob): Promise<JobOutcome> {
+    const existing = this.active.get(job.id);
+    if (existing) return existing;
+    // Bắt đầu một lượt mới thì đếm lại từ đầu
+    if (this.isIdle) {
+      this.completed = 0;
+      this.failed = 0;
+    }
+    const outcome = new Promise<JobOutcome>(resolve => {
+      this.pending.push({
+        job,
+        resolve: result => {
+          this.active.delete(job.id);
+          resolve(result);
+        }
+      });
+    });
+    this.active.set(job.id, outcome);
+    this.emit();
+    this.pump();
+    return outcome;
+  }
+
+  public pause() {
+    this.paused = true;
+    this.emit();
+  }
+
+  public resume() {
+    this.paused = false;
+    this.emit();
+    this.pump();
+  }
+
+  public cancel() {
+    const dropped = this.pending;
+    this.pending = [];
+    dropped.forEach(p => p.resolve({ status: 'cancelled' }));
+    this.running.forEach(controller => controller.abort());
+    this.paused = false;
+    this.emit();
+  }
+
+  private emit() {
+    const snapshot = this.snapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private pump() {
+    while (!this.paused && this.running.size < this.concurrency && this.pending.length > 0) {
+      this.start(this.pending.shift()!);
+    }
+  }
+
+  private async start({ job, resolve }: PendingJob) {
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+    this.emit();
+    try {
+      await job.run(controller.signal);
+      this.completed++;
+      resolve({ status: 'done' });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        resolve({ status: 'cancelled' });
+      } else {
+        this.failed++;
+        resolve({ status: 'failed', error });
+      }
+    } finally {
+      this.running.delete(job.id);
+      this.emit();
+      this.pump();
+    }
+  }
+}
+
+// Chờ ms mili-giây, dừng ngay (reject) khi signal bị huỷ
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
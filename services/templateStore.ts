@@ -0,0 +1,14 @@
+import { PromptTemplate } from "../types";
+import { TEMPLATE_STORE, runRequest } from "./db";
+
+export const loadTemplates = async (): Promise<PromptTemplate[]> => {
+  return runRequest<PromptTemplate[]>(TEMPLATE_STORE, 'readonly', store => store.getAll());
+};
+
+export const saveTemplate = async (template: PromptTemplate): Promise<void> => {
+  await runRequest(TEMPLATE_STORE, 'readwrite', store => store.put(template));
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  await runRequest(TEMPLATE_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,120 @@
+import { Collection, OutputResolution, UsageEntry } from "../types";
+import { toRenderError } from "./renderErrors";
+
+export type UsageListener = (entry: UsageEntry) => void;
+
+interface ModelPricing {
+  inputPerMillion: number; // USD cho mỗi triệu token đầu vào (chữ và ảnh)
+  image: Record<OutputResolution, number>; // USD cho mỗi ảnh trả về
+}
+
+// Giá niêm yết tham khảo, chỉ dùng để ước tính; hoá đơn thật nằm ở Google Cloud Billing
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-3-pro-image-preview': { inputPerMillion: 2, image: { '1K': 0.134, '2K': 0.134, '4K': 0.24 } },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, image: { '1K': 0.039, '2K': 0.039, '4K': 0.039 } },
+  mock: { inputPerMillion: 0, image: { '1K': 0, '2K': 0, '4K': 0 } }
+};
+
+// Model lạ tính theo giá của model mặc định để không ước tính thấp hơn thực tế
+const FALLBACK_MODEL = 'gemini-3-pro-image-preview';
+
+/** Token đầu vào luôn bị tính; ảnh chỉ tính khi lượt gọi thành công. */
+export const estimateCost = (entry: UsageEntry): number => {
+  const pricing = MODEL_PRICING[entry.model] ?? MODEL_PRICING[FALLBACK_MODEL];
+  return (entry.promptTokens / 1_000_000) * pricing.inputPerMillion + (entry.success ? pricing.image[entry.imageSize] : 0);
+};
+
+export interface UsageCounters {
+  attempts: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+interface MeterContext {
+  signal?: AbortSignal;
+  onUsage?: UsageListener;
+}
+
+/**
+ * Runs one provider call and reports it as a ledger entry once it settles.
+ * `run` bumps the counters for every request it sends; a call that failed
+ * before sending anything is not recorded.
+ */
+export const meterUsage = async <T>(
+  info: Pick<UsageEntry, 'operation' | 'provider' | 'model' | 'imageSize'>,
+  { signal, onUsage }: MeterContext,
+  run: (counters: UsageCounters) => Promise<T>
+): Promise<T> => {
+  const counters: UsageCounters = { attempts: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0 };
+  const started = Date.now();
+  const report = (success: boolean, errorKind?: string) => {
+    if (!onUsage || counters.attempts === 0) return;
+    const { attempts, ...tokens } = counters;
+    onUsage({
+      id: Math.random().toString(36).substr(2, 9),
+      ...info,
+      ...tokens,
+      retries: attempts - 1,
+      durationMs: Date.now() - started,
+      success,
+      errorKind,
+      timestamp: Date.now()
+    });
+  };
+  try {
+    const result = await run(counters);
+    report(true);
+    return result;
+  } catch (error) {
+    report(false, signal?.aborted ? 'cancelled' : toRenderError(error).kind);
+    throw error;
+  }
+};
+
+export interface UsageSummary {
+  requests: number;
+  failures: number;
+  retries: number;
+  tokens: number;
+  durationMs: number;
+  cost: number;
+}
+
+export const summarizeUsage = (entries: UsageEntry[]): UsageSummary => entries.reduce((sum, e) => ({
+  requests: sum.requests + 1,
+  failures: sum.failures + (e.success ? 0 : 1),
+  retries: sum.retries + e.retries,
+  tokens: sum.tokens + e.totalTokens,
+  durationMs: sum.durationMs + e.durationMs,
+  cost: sum.cost + estimateCost(e)
+}), { requests: 0, failures: 0, retries: 0, tokens: 0, durationMs: 0, cost: 0 });
+
+export const collectionCost = (collection: Collection): number => summarizeUsage(collection.usage).cost;
+
+export const isOverBudget = (collection: Collection): boolean =>
+  collection.budget !== undefined && collectionCost(collection) >= collection.budget;
+
+export interface ClientUsage {
+  client: string; // Rỗng với các dự án chưa gán khách hàng
+  projects: { collection: Collection; summary: UsageSummary }[];
+  summary: UsageSummary;
+}
+
+/** Usage grouped by client, most expensive first. */
+export const usageByClient = (collections: Collection[]): ClientUsage[] => {
+  const groups = new Map<string, Collection[]>();
+  collections.forEach(c => {
+    const client = c.metadata.client.trim();
+    groups.set(client, [...(groups.get(client) ?? []), c]);
+  });
+  return Array.from(groups, ([client, members]) => ({
+    client,
+    projects: members
+      .map(collection => ({ collection, summary: summarizeUsage(collection.usage) }))
+      .sort((a, b) => b.summary.cost - a.summary.cost),
+    summary: summarizeUsage(members.flatMap(c => c.usage))
+  })).sort((a, b) => b.summary.cost - a.summary.cost);
+};
+
+export const formatCost = (usd: number): string => `$${usd.toFixed(usd < 10 ? 3 : 2)}`;
@@ -0,0 +1,59 @@
+import { OutputResolution, RenderParameters, RenderVersion, StagingParameters } from "../types";
+import { RenderResult } from "./renderProvider";
+import { isBelow } from "./output";
+
+interface Versioned {
+  renderedUrl?: string;
+  versions?: RenderVersion[];
+  finalVersionId?: string;
+}
+
+export const createVersion = (
+  result: RenderResult,
+  source: RenderVersion['source'],
+  parameters: RenderParameters | StagingParameters
+): RenderVersion => ({
+  id: Math.random().toString(36).substr(2, 9),
+  url: result.imageUrl,
+  source,
+  imageSize: result.imageSize,
+  prompt: result.prompt,
+  parameters: { ...parameters },
+  createdAt: Date.now()
+});
+
+/** Appends a version and makes it final; earlier versions are kept for comparison. */
+export const addVersion = <T extends Versioned>(item: T, version: RenderVersion): T => ({
+  ...item,
+  versions: [...(item.versions ?? []), version],
+  finalVersionId: version.id,
+  renderedUrl: version.url
+});
+
+export const finalVersion = (item: Versioned): RenderVersion | undefined =>
+  item.versions?.find(v => v.id === item.finalVersionId);
+
+/** Size of the final version; renders from before sizes were recorded were always 1K. */
+export const finalSize = (item: Versioned): OutputResolution => finalVersion(item)?.imageSize ?? '1K';
+
+export const needsUpscale = (item: Versioned, target: OutputResolution) =>
+  !!item.renderedUrl && isBelow(finalSize(item), target);
+
+export const selectFinalVersion = <T extends Versioned>(item: T, versionId: string): T => {
+  const version = item.versions?.find(v => v.id === versionId);
+  return version ? { ...item, finalVersionId: version.id, renderedUrl: version.url } : item;
+};
+
+/** Renders saved before version history existed become a single version with unknown prompt. */
+export const migrateVersions = <T extends Versioned>(item: T, parameters: RenderParameters | StagingParameters, savedAt: number): T => {
+  if (item.versions || !item.renderedUrl) return item;
+  const legacy: RenderVersion = {
+    id: Math.random().toString(36).substr(2, 9),
+    url: item.renderedUrl,
+    source: 'render',
+    prompt: '',
+    parameters,
+    createdAt: savedAt
+  };
+  return { ...item, versions: [legacy], finalVersionId: legacy.id };
+};
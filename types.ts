@@ -7,13 +7,15 @@ export enum ViewType {
   DETAIL = 'detail'
 }
 
+// Các enum dưới đây là id của những mục có sẵn trong catalog (xem services/catalog.ts).
+// Giá trị là mô tả tiếng Anh gửi thẳng vào prompt; nhãn hiển thị nằm trong locales
 export enum CameraAngle {
-  WIDE = 'Wide Shot (Toàn cảnh)',
-  MEDIUM = 'Medium Shot (Trung cảnh)',
-  CLOSEUP = 'Close-up (Cận cảnh)',
-  TOP_DOWN = 'Top-down (Từ trên xuống)',
-  SIDE_PERSPECTIVE = 'Side Perspective (Góc nghiêng)',
-  DETAIL_MACRO = 'Detail Shot (Cận cảnh chi tiết)'
+  WIDE = 'Wide Shot',
+  MEDIUM = 'Medium Shot',
+  CLOSEUP = 'Close-up',
+  TOP_DOWN = 'Top-down',
+  SIDE_PERSPECTIVE = 'Side Perspective',
+  DETAIL_MACRO = 'Detail Shot'
 }
 
 export enum DesignStyle {
@@ -59,11 +61,11 @@ export enum InputStatus {
 
 export interface RenderParameters {
   spaceType: 'Interior' | 'Exterior';
-  roomType: RoomType;
-  lightingEnv: LightingEnvironment;
+  roomType: string; // Id mục catalog, xem CatalogKind
+  lightingEnv: string;
   lightingDirection: 'Front' | 'Side' | 'Back' | 'Overhead';
-  designStyle: DesignStyle;
-  colorPalette: string;
+  designStyle: string;
+  colorPalette: string[]; // Mã hex dạng #RRGGBB
   mood: string;
   allowExternalItems: boolean;
 }
@@ -71,35 +73,211 @@ export interface RenderParameters {
 export interface StagingParameters extends RenderParameters {
   layoutDensity: 'Minimal' | 'Balanced' | 'Spacious';
   arrangementStyle: 'Focal Point' | 'Symmetrical' | 'Organic';
-  viewpoints: CameraAngle[];
+  viewpoints: string[]; // Id các mục catalog 'cameraAngle'
+}
+
+/**
+ * A parametric camera placed around the hero product. Azimuth is measured
+ * clockwise seen from above, 0° facing the product's front.
+ */
+export interface CameraRig {
+  focalLength: number; // mm, quy đổi full-frame
+  height: number; // Độ cao ống kính so với sàn (m)
+  distance: number; // Khoảng cách ngang tới sản phẩm chính (m)
+  azimuth: number; // 0–359°, 90° là phía tay phải của sản phẩm
+  tilt: number; // Độ ngẩng của máy; âm là chúc xuống
+}
+
+// Danh mục lựa chọn mở rộng được; mỗi loại trùng tên với trường tham số mà nó điền
+export type CatalogKind = 'roomType' | 'designStyle' | 'lightingEnv' | 'cameraAngle';
+
+export interface CatalogEntry {
+  id: string; // Mục có sẵn dùng giá trị enum làm id để dữ liệu cũ vẫn khớp
+  kind: CatalogKind;
+  label: string;
+  prompt: string; // Đoạn mô tả chèn vào prompt ở vị trí của mục này
+  thumbnailUrl?: string;
+  spaceType?: RenderParameters['spaceType']; // Chỉ với roomType, để kiểm tra khớp nội/ngoại thất
+  camera?: CameraRig; // Chỉ với cameraAngle; có thì mục là một camera rig đặt bằng thông số
+  builtIn?: boolean;
+  createdAt: number;
+}
+
+// Khía cạnh mà mô hình được phép lấy từ một ảnh tham chiếu
+export type MoodBoardRole = 'general' | 'lighting' | 'material' | 'color' | 'layout';
+
+export interface MoodBoardImage {
+  id: string;
+  url: string;
+  role: MoodBoardRole;
+  palette?: string[]; // Màu chủ đạo trích từ ảnh, mã hex #RRGGBB
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  stagingParameters: StagingParameters;
+  moodBoard?: MoodBoardImage[];
+  createdAt: number;
+}
+
+export type OutputResolution = '1K' | '2K' | '4K';
+
+// scene: giữ bối cảnh phòng; white/palette: phông studio liền mạch (trắng hoặc màu đầu tiên của bảng màu)
+export type BackgroundRule = 'scene' | 'white' | 'palette';
+
+export interface OutputProfile {
+  id: string;
+  name: string;
+  aspectRatio: string; // "W:H", ví dụ "4:5"
+  resolution: OutputResolution; // Độ phân giải khi render/chỉnh sửa
+  background: BackgroundRule;
+  safeMargin: number; // Tỉ lệ lề an toàn mỗi cạnh, 0–0.25
+  builtIn?: boolean;
+}
+
+export interface OutputSettings {
+  productProfileId: string;
+  stagingProfileId: string;
+  customProfiles: OutputProfile[];
+  finalResolution: OutputResolution; // Độ phân giải mà bản final được upscale lên
+}
+
+// Điểm 0–1: càng cao thì sản phẩm trong ảnh render càng giống ảnh gốc
+export interface FidelityReport {
+  score: number; // Điểm tổng, thấp nhất trong các sản phẩm được so
+  color: number; // Độ trùng histogram màu
+  structure: number; // SSIM trên vùng sản phẩm
+  checkedAt: number;
+}
+
+export interface FidelitySettings {
+  enabled: boolean;
+  threshold: number; // Dưới ngưỡng này thì cảnh báo
+  autoRerender: boolean;
+  maxAttempts: number; // Tổng số lần render tối đa khi tự render lại
+}
+
+export interface RenderVersion {
+  id: string;
+  url: string;
+  source: 'render' | 'edit' | 'upscale';
+  imageSize?: OutputResolution; // Không có ở dữ liệu cũ, coi như 1K
+  fidelity?: FidelityReport; // Chỉ có ở bản render đã được kiểm tra
+  prompt: string;
+  parameters: RenderParameters | StagingParameters;
+  createdAt: number;
+}
+
+// Các bước tiền xử lý tuỳ chọn; xoay EXIF và xử lý nền trong suốt luôn được áp dụng
+export interface PreprocessOptions {
+  autoCrop: boolean;
+  removeBackground: boolean;
+  whiteBalance: boolean;
+}
+
+// Một sản phẩm (SKU) gom nhiều ảnh góc nhìn khác nhau
+export interface Product {
+  id: string;
+  sku: string;
+  name: string;
 }
 
 export interface ProductImage {
   id: string;
-  originalUrl: string;
-  renderedUrl?: string;
+  productId?: string;
+  originalUrl: string; // Ảnh đầu vào đã tiền xử lý, là ảnh gửi cho mô hình
+  sourceUrl?: string; // Ảnh tải lên nguyên bản; không có ở dữ liệu cũ, khi đó originalUrl là ảnh gốc
+  preprocess?: PreprocessOptions; // Các bước đã áp dụng cho originalUrl
+  renderedUrl?: string; // URL của phiên bản final
+  versions?: RenderVersion[];
+  finalVersionId?: string;
   viewType: ViewType;
   inputStatus: InputStatus;
+  statusBeforeRemoval?: InputStatus; // Để khôi phục ảnh đã xóa mềm
+  replacedUrls?: string[]; // Các ảnh gốc trước khi bị thay thế
   renderStatus: 'pending' | 'processing' | 'completed' | 'error';
+  errorMessage?: string; // Lý do lỗi của lần render gần nhất
   isSelected?: boolean;
 }
 
 export interface StagedScene {
   id: string;
   productIds: string[];
-  angle: CameraAngle;
+  angle: string; // Id mục catalog 'cameraAngle'
+  masterSceneId?: string; // Cảnh master mà góc này dựa vào; không có nghĩa là chính nó là master
+  profileId?: string; // Ghi đè output profile của collection cho riêng cảnh này
   renderedUrl?: string;
+  versions?: RenderVersion[];
+  finalVersionId?: string;
   status: 'pending' | 'processing' | 'completed' | 'error';
+  errorMessage?: string;
+}
+
+export type PromptKind = 'product' | 'staging';
+
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  savedAt: number;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  kind: PromptKind;
+  versions: PromptTemplateVersion[]; // Phiên bản mới nhất nằm cuối mảng
+  builtIn?: boolean;
+}
+
+export type UsageOperation = 'product' | 'staging' | 'edit' | 'upscale';
+
+// Một lượt gọi provider, tính cả các lần thử lại bên trong
+export interface UsageEntry {
+  id: string;
+  operation: UsageOperation;
+  provider: string;
+  model: string;
+  imageSize: OutputResolution;
+  retries: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  durationMs: number;
+  success: boolean;
+  errorKind?: string; // Loại RenderError, hoặc 'cancelled' khi bị huỷ giữa chừng
+  timestamp: number;
+}
+
+export interface ProjectMetadata {
+  client: string;
+  skuPrefix: string;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface Collection {
   id: string;
   name: string;
+  metadata: ProjectMetadata;
   mode: 'Individual' | 'Staging';
   parameters: RenderParameters;
   stagingParameters: StagingParameters;
+  products: Product[];
   images: ProductImage[];
   stagedScenes: StagedScene[];
-  referenceImage?: string; // Mood board / Concept
+  output: OutputSettings;
+  fidelity: FidelitySettings;
+  preprocess: PreprocessOptions; // Mặc định cho ảnh tải lên mới
+  moodBoard: MoodBoardImage[]; // Ảnh tham chiếu, gửi kèm theo đúng thứ tự này
+  usage: UsageEntry[]; // Sổ ghi mọi lượt gọi render của dự án
+  budget?: number; // Trần chi phí ước tính (USD); không có thì không giới hạn
+  productTemplateId?: string;
+  stagingTemplateId?: string;
   isConfirmed: boolean;
 }
+
+export interface Workspace {
+  collections: Collection[];
+  activeCollectionId: string | null;
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -5,12 +6,17 @@ export default defineConfig({
   plugins: [react()],
   base: './', 
   define: {
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY)
+    'process.env.API_KEY': JSON.stringify(process.env.API_KEY),
+    'process.env.RENDER_PROVIDER': JSON.stringify(process.env.RENDER_PROVIDER)
   },
   build: {
     outDir: 'dist',
     assetsDir: 'assets',
     emptyOutDir: true,
     sourcemap: false
+  },
+  test: {
+    // i18n đọc localStorage và navigator ngay khi nạp module
+    environment: 'jsdom'
   }
 });